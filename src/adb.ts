@@ -195,7 +195,9 @@ export async function resolveAdbSerial({ strict = true } = {}) {
   if (!resolvingSerial) {
     resolvingSerial = (async () => {
       const state = await computeAdbSerialState({ strict });
-      resolvedSerial = state.serial;
+      // Leave "no device" uncached so a device that shows up later (e.g. a
+      // freshly booted emulator) is picked up by the next command.
+      resolvedSerial = state.serial ?? undefined;
       if (state.warning) {
         logDebug(state.warning);
       }
@@ -257,6 +259,11 @@ export async function getAdbSerialState({ strict = false } = {}) {
   }
 }
 
+// Forgets the auto-detected device after emulators are started or killed.
+export function invalidateAdbSerial() {
+  resolvedSerial = undefined;
+}
+
 export function setAdbSerialOverride(serial?: string | null) {
   if (serial === undefined) {
     serialOverride = undefined;
@@ -1,8 +1,9 @@
 import { accessSync, constants } from 'node:fs';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
+import { EXPO_GO_ANDROID_URL } from './expo/constants.js';
 
-type ResolvedAdb = {
+type ResolvedBinary = {
   path: string;
   source: string;
   candidates: string[];
@@ -17,23 +18,29 @@ function canExecute(filePath: string) {
   }
 }
 
-function resolveAdbPath(): ResolvedAdb {
+// Looks for an SDK tool in $ENV, then $ANDROID_HOME, then the default SDK
+// locations on macOS and Linux, and finally falls back to PATH.
+function resolveSdkBinary(
+  envName: string,
+  ...segments: string[]
+): ResolvedBinary {
+  const binary = segments[segments.length - 1];
   const candidates: string[] = [];
-  const envPath = process.env.ADB_PATH;
+  const envPath = process.env[envName];
   if (envPath) {
-    return { path: envPath, source: 'env:ADB_PATH', candidates: [envPath] };
+    return { path: envPath, source: `env:${envName}`, candidates: [envPath] };
   }
 
   const androidHome = process.env.ANDROID_HOME ?? process.env.ANDROID_SDK_ROOT;
   if (androidHome) {
-    candidates.push(join(androidHome, 'platform-tools', 'adb'));
+    candidates.push(join(androidHome, ...segments));
   }
 
   const home = process.env.HOME ?? homedir();
   if (home) {
     candidates.push(
-      join(home, 'Library', 'Android', 'sdk', 'platform-tools', 'adb'),
-      join(home, 'Android', 'Sdk', 'platform-tools', 'adb')
+      join(home, 'Library', 'Android', 'sdk', ...segments),
+      join(home, 'Android', 'Sdk', ...segments)
     );
   }
 
@@ -43,13 +50,21 @@ function resolveAdbPath(): ResolvedAdb {
     }
   }
 
-  return { path: 'adb', source: 'path', candidates: [...candidates, 'adb'] };
+  return { path: binary, source: 'path', candidates: [...candidates, binary] };
 }
 
-const resolvedAdb = resolveAdbPath();
+const resolvedAdb = resolveSdkBinary('ADB_PATH', 'platform-tools', 'adb');
 export const ADB_PATH = resolvedAdb.path;
 export const ADB_PATH_SOURCE = resolvedAdb.source;
 export const ADB_PATH_CANDIDATES = resolvedAdb.candidates;
+const resolvedEmulator = resolveSdkBinary(
+  'EMULATOR_PATH',
+  'emulator',
+  'emulator'
+);
+export const EMULATOR_PATH = resolvedEmulator.path;
+export const EMULATOR_PATH_SOURCE = resolvedEmulator.source;
+export const EMULATOR_PATH_CANDIDATES = resolvedEmulator.candidates;
 const serialEnv = process.env.ADB_SERIAL;
 export const ADB_SERIAL =
   serialEnv && serialEnv.toLowerCase() !== 'auto' ? serialEnv : undefined;
@@ -57,6 +72,31 @@ export const ADB_TIMEOUT_MS = Number(process.env.ADB_TIMEOUT_MS ?? '15000');
 const maxBufferMb = Number(process.env.ADB_MAX_BUFFER_MB ?? '10');
 export const ADB_MAX_BUFFER = Math.max(1, maxBufferMb) * 1024 * 1024;
 export const ADB_DEBUG = process.env.ADB_DEBUG === '1';
+export const ADB_INSTALL_TIMEOUT_MS = Number(
+  process.env.ADB_INSTALL_TIMEOUT_MS ?? '180000'
+);
+
+function parsePortList(value: string) {
+  return value
+    .split(',')
+    .map((item) => Number.parseInt(item.trim(), 10))
+    .filter((port) => Number.isInteger(port) && port > 0 && port <= 65535);
+}
+
+export const ADB_REVERSE_PORTS = parsePortList(
+  process.env.ADB_REVERSE_PORTS ?? '8081'
+);
+
+export const EXPO_GO_APK_URL = process.env.EXPO_GO_APK_URL ?? EXPO_GO_ANDROID_URL;
+export const EXPO_ANDROID_CACHE_DIR =
+  process.env.EXPO_ANDROID_CACHE_DIR ??
+  join(process.env.HOME ?? homedir(), '.cache', 'expo-android');
+export const EXPO_ANDROID_BASELINE_DIR =
+  process.env.EXPO_ANDROID_BASELINE_DIR ??
+  join(process.cwd(), '.expo-android', 'baselines');
+export const EXPO_ANDROID_VISUAL_OUTPUT_DIR =
+  process.env.EXPO_ANDROID_VISUAL_OUTPUT_DIR ??
+  join(process.cwd(), '.expo-android', 'visual-output');
 
 export const MCP_TRANSPORT = process.env.MCP_TRANSPORT ?? 'stdio';
 export const MCP_HTTP_PORT = Number(process.env.PORT ?? '7332');
@@ -0,0 +1,140 @@
+import { shellQuote } from './shell.js';
+
+export type NightMode = 'yes' | 'no' | 'auto' | 'custom';
+
+export type DeviceSettings = {
+  nightMode?: NightMode;
+  locale?: string;
+  fontScale?: number;
+  // null clears the override and returns to the physical density.
+  density?: number | null;
+  windowAnimationScale?: number;
+  transitionAnimationScale?: number;
+  animatorDurationScale?: number;
+  // Bitmask of power sources: 1 AC, 2 USB, 4 wireless, 8 dock.
+  stayOnWhilePluggedIn?: number;
+  showTouches?: boolean;
+};
+
+const ANIMATION_SETTINGS = {
+  windowAnimationScale: 'window_animation_scale',
+  transitionAnimationScale: 'transition_animation_scale',
+  animatorDurationScale: 'animator_duration_scale',
+} as const;
+
+export const READ_SETTINGS_SCRIPT = [
+  'echo "nightMode=$(cmd uimode night 2>/dev/null)"',
+  'echo "locale=$(getprop persist.sys.locale)"',
+  'echo "productLocale=$(getprop ro.product.locale)"',
+  'echo "fontScale=$(settings get system font_scale)"',
+  `echo "density=$(wm density | tr '\\n' ' ')"`,
+  ...Object.entries(ANIMATION_SETTINGS).map(
+    ([key, name]) => `echo "${key}=$(settings get global ${name})"`
+  ),
+  'echo "stayOnWhilePluggedIn=$(settings get global stay_on_while_plugged_in)"',
+  'echo "showTouches=$(settings get system show_touches)"',
+].join('; ');
+
+// `settings get` prints "null" for keys that were never written.
+function numberOr(value: string | undefined, fallback: number) {
+  const parsed = Number.parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function parseNightMode(output: string): NightMode | undefined {
+  const mode = output.match(/Night mode:\s*(\w+)/)?.[1];
+  return mode === 'yes' || mode === 'no' || mode === 'auto' || mode === 'custom'
+    ? mode
+    : undefined;
+}
+
+export function parseDensity(output: string) {
+  const physical = output.match(/Physical density:\s*(\d+)/)?.[1];
+  const override = output.match(/Override density:\s*(\d+)/)?.[1];
+  return {
+    physical: physical ? Number.parseInt(physical, 10) : null,
+    override: override ? Number.parseInt(override, 10) : null,
+  };
+}
+
+export function parseDeviceSettings(output: string): Required<DeviceSettings> {
+  const values: Record<string, string> = {};
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    values[line.slice(0, separator).trim()] = line
+      .slice(separator + 1)
+      .replace(/\r$/, '')
+      .trim();
+  }
+  return {
+    nightMode: parseNightMode(values.nightMode ?? '') ?? 'no',
+    locale: values.locale || values.productLocale || '',
+    fontScale: numberOr(values.fontScale, 1),
+    density: parseDensity(values.density ?? '').override,
+    windowAnimationScale: numberOr(values.windowAnimationScale, 1),
+    transitionAnimationScale: numberOr(values.transitionAnimationScale, 1),
+    animatorDurationScale: numberOr(values.animatorDurationScale, 1),
+    stayOnWhilePluggedIn: numberOr(values.stayOnWhilePluggedIn, 0),
+    showTouches: values.showTouches === '1',
+  };
+}
+
+export function normalizeLocale(locale: string) {
+  const tag = locale.replace(/_/g, '-');
+  if (!/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(tag)) {
+    throw new Error(`Invalid locale "${locale}"; expected a tag like en-US.`);
+  }
+  return tag;
+}
+
+// Commands for everything except the locale, which needs a framework restart.
+export function buildSettingsCommands(changes: DeviceSettings) {
+  const commands: string[] = [];
+  if (changes.nightMode !== undefined) {
+    commands.push(`cmd uimode night ${changes.nightMode}`);
+  }
+  if (changes.fontScale !== undefined) {
+    commands.push(`settings put system font_scale ${changes.fontScale}`);
+  }
+  if (changes.density !== undefined) {
+    commands.push(
+      changes.density === null
+        ? 'wm density reset'
+        : `wm density ${Math.round(changes.density)}`
+    );
+  }
+  for (const [key, name] of Object.entries(ANIMATION_SETTINGS)) {
+    const value = changes[key as keyof typeof ANIMATION_SETTINGS];
+    if (value !== undefined) {
+      commands.push(`settings put global ${name} ${value}`);
+    }
+  }
+  if (changes.stayOnWhilePluggedIn !== undefined) {
+    commands.push(
+      `settings put global stay_on_while_plugged_in ${changes.stayOnWhilePluggedIn}`
+    );
+  }
+  if (changes.showTouches !== undefined) {
+    commands.push(
+      `settings put system show_touches ${changes.showTouches ? 1 : 0}`
+    );
+  }
+  return commands;
+}
+
+export function buildLocaleCommand(locale: string) {
+  return `setprop persist.sys.locale ${shellQuote(normalizeLocale(locale))} && setprop ctl.restart zygote`;
+}
+
+// Only the keys present in `changes`, taken from a full snapshot.
+export function pickSettings(
+  snapshot: Required<DeviceSettings>,
+  changes: DeviceSettings
+): DeviceSettings {
+  return Object.fromEntries(
+    Object.keys(changes)
+      .filter((key) => changes[key as keyof DeviceSettings] !== undefined)
+      .map((key) => [key, snapshot[key as keyof DeviceSettings]])
+  );
+}
@@ -0,0 +1,130 @@
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+};
+
+export const BATTERY_STATUSES = [
+  'unknown',
+  'charging',
+  'discharging',
+  'not-charging',
+  'full',
+] as const;
+
+export type BatteryStatus = (typeof BATTERY_STATUSES)[number];
+
+export type BatteryOptions = {
+  level?: number;
+  charging?: boolean;
+  status?: BatteryStatus;
+};
+
+export const NETWORK_SPEEDS = [
+  'gsm',
+  'hscsd',
+  'gprs',
+  'edge',
+  'umts',
+  'hsdpa',
+  'lte',
+  'evdo',
+  'full',
+] as const;
+
+export const NETWORK_DELAYS = ['gprs', 'edge', 'umts', 'none'] as const;
+
+export type NetworkSpeed = (typeof NETWORK_SPEEDS)[number];
+export type NetworkDelay = (typeof NETWORK_DELAYS)[number];
+
+export const CALL_ACTIONS = [
+  'incoming',
+  'accept',
+  'busy',
+  'hold',
+  'cancel',
+] as const;
+
+export type CallAction = (typeof CALL_ACTIONS)[number];
+
+// `geo fix` takes the longitude first.
+export function geoFixArgs({ latitude, longitude, altitude }: GeoPoint) {
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    throw new Error(`latitude must be between -90 and 90, got ${latitude}.`);
+  }
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error(`longitude must be between -180 and 180, got ${longitude}.`);
+  }
+  const args = ['geo', 'fix', String(longitude), String(latitude)];
+  if (altitude !== undefined) args.push(String(altitude));
+  return args;
+}
+
+export function batteryCommands({ level, charging, status }: BatteryOptions) {
+  if (level === undefined && charging === undefined && status === undefined) {
+    throw new Error('Pass at least one of level, charging or status.');
+  }
+  const commands: string[][] = [];
+  if (level !== undefined) {
+    if (!Number.isInteger(level) || level < 0 || level > 100) {
+      throw new Error(`level must be an integer between 0 and 100, got ${level}.`);
+    }
+    commands.push(['power', 'capacity', String(level)]);
+  }
+  if (charging !== undefined) {
+    commands.push(['power', 'ac', charging ? 'on' : 'off']);
+  }
+  // Plugging in does not update the reported status on its own.
+  const nextStatus =
+    status ?? (charging === undefined ? undefined : charging ? 'charging' : 'discharging');
+  if (nextStatus) commands.push(['power', 'status', nextStatus]);
+  return commands;
+}
+
+export function networkCommands({
+  speed,
+  delay,
+}: {
+  speed?: NetworkSpeed;
+  delay?: NetworkDelay;
+}) {
+  const commands: string[][] = [];
+  if (speed) commands.push(['network', 'speed', speed]);
+  if (delay) commands.push(['network', 'delay', delay]);
+  return commands;
+}
+
+function assertPhoneNumber(number: string) {
+  if (!/^\+?[0-9#*]+$/.test(number)) {
+    throw new Error(`Invalid phone number "${number}"; use digits with an optional leading +.`);
+  }
+}
+
+// The console reads one line per command, so newlines cannot be sent.
+export function smsArgs(from: string, message: string) {
+  assertPhoneNumber(from);
+  if (message.trim() === '') throw new Error('message must not be empty.');
+  return ['sms', 'send', from, message.replace(/\r?\n/g, ' ')];
+}
+
+export function callArgs(action: CallAction, number: string) {
+  assertPhoneNumber(number);
+  return ['gsm', action === 'incoming' ? 'call' : action, number];
+}
+
+export function fingerprintArgs(fingerId: number) {
+  if (!Number.isInteger(fingerId) || fingerId < 1) {
+    throw new Error(`fingerId must be a positive integer, got ${fingerId}.`);
+  }
+  return ['finger', 'touch', String(fingerId)];
+}
+
+// The console answers "OK" or "KO: <reason>"; adb exits 0 either way.
+export function findConsoleError(output: string) {
+  const line = output
+    .split('\n')
+    .map((item) => item.trim())
+    .find((item) => item.startsWith('KO'));
+  if (!line) return null;
+  return line.replace(/^KO:?\s*/, '') || 'Command rejected by the emulator console.';
+}
@@ -0,0 +1,82 @@
+export type EmulatorOptions = {
+  avd: string;
+  headless?: boolean;
+  wipeData?: boolean;
+  coldBoot?: boolean;
+  snapshot?: string;
+  port?: number;
+};
+
+export const EMULATOR_FIRST_PORT = 5554;
+export const EMULATOR_LAST_PORT = 5682;
+
+const EMULATOR_SERIAL_REGEX = /^emulator-(\d+)$/;
+
+export function isEmulatorSerial(serial: string) {
+  return EMULATOR_SERIAL_REGEX.test(serial);
+}
+
+// Older images set ro.kernel.qemu; newer ones (API 31+) set ro.boot.qemu.
+export const QEMU_PROPS_COMMAND = 'getprop ro.kernel.qemu; getprop ro.boot.qemu';
+
+export function isQemuDevice(getpropOutput: string) {
+  return getpropOutput.split('\n').some((line) => line.trim() === '1');
+}
+
+export function emulatorSerial(port: number) {
+  return `emulator-${port}`;
+}
+
+// `emulator -list-avds` may mix INFO/WARNING lines into the output.
+export function parseAvdList(output: string) {
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /^[\w.-]+$/.test(line));
+}
+
+// `adb emu avd name` prints the name followed by "OK".
+export function parseAvdName(output: string) {
+  const name = output
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line !== '' && line !== 'OK');
+  return name ?? null;
+}
+
+// Console ports come in even/odd pairs starting at 5554; the serial uses the
+// even console port.
+export function nextFreePort(serials: string[]) {
+  const used = new Set(
+    serials
+      .map((serial) => serial.match(EMULATOR_SERIAL_REGEX)?.[1])
+      .filter((port): port is string => port !== undefined)
+      .map((port) => Number.parseInt(port, 10))
+  );
+  for (let port = EMULATOR_FIRST_PORT; port <= EMULATOR_LAST_PORT; port += 2) {
+    if (!used.has(port)) return port;
+  }
+  throw new Error('No free emulator port between 5554 and 5682.');
+}
+
+export function buildEmulatorArgs(options: EmulatorOptions) {
+  const { avd, headless, wipeData, coldBoot, snapshot, port } = options;
+  if (coldBoot && snapshot) {
+    throw new Error('coldBoot and snapshot cannot be combined.');
+  }
+  if (
+    port !== undefined &&
+    (port % 2 !== 0 || port < EMULATOR_FIRST_PORT || port > EMULATOR_LAST_PORT)
+  ) {
+    throw new Error(
+      `port must be an even number between ${EMULATOR_FIRST_PORT} and ${EMULATOR_LAST_PORT}.`
+    );
+  }
+  const args = ['-avd', avd];
+  if (headless) args.push('-no-window', '-no-audio', '-no-boot-anim');
+  if (wipeData) args.push('-wipe-data');
+  if (coldBoot) args.push('-no-snapshot-load');
+  if (snapshot) args.push('-snapshot', snapshot);
+  if (port !== undefined) args.push('-port', String(port));
+  return args;
+}
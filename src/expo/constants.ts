@@ -2,3 +2,5 @@ export const EXPO_GO_ANDROID_URL =
   "https://github.com/expo/expo-go-releases/releases/download/Expo-Go-54.0.6/Expo-Go-54.0.6.apk";
 
 export const EXPO_GO_VERSIONS_API = "https://exp.host/--/api/v2/versions/latest";
+
+export const EXPO_GO_PACKAGE = "host.exp.exponent";
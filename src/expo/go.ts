@@ -0,0 +1,103 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, rename, stat, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+
+export type ExpoGoRelease = {
+  url: string;
+  version: string | null;
+  sdkVersion: string | null;
+};
+
+type VersionsResponse = {
+  data?: {
+    sdkVersions?: Record<
+      string,
+      { androidClientUrl?: string; androidClientVersion?: string }
+    >;
+  };
+};
+
+export function compareVersions(a: string, b: string) {
+  const pa = a.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  const pb = b.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  const length = Math.max(pa.length, pb.length);
+  for (let i = 0; i < length; i += 1) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function versionFromApkUrl(url: string) {
+  const match = url.match(/(\d+\.\d+\.\d+)\.apk(?:$|\?)/);
+  return match ? match[1] : null;
+}
+
+export function pickLatestAndroidClient(json: unknown): ExpoGoRelease {
+  const versions = (json as VersionsResponse)?.data?.sdkVersions ?? {};
+  const keys = Object.keys(versions)
+    .filter((key) => /^\d+\.\d+\.\d+$/.test(key))
+    .filter((key) => Boolean(versions[key]?.androidClientUrl))
+    .sort(compareVersions);
+  const sdkVersion = keys.pop();
+  if (!sdkVersion) {
+    throw new Error('No SDK version with an androidClientUrl was found.');
+  }
+  const entry = versions[sdkVersion];
+  const url = entry.androidClientUrl as string;
+  return {
+    url,
+    version: entry.androidClientVersion ?? versionFromApkUrl(url),
+    sdkVersion,
+  };
+}
+
+export async function resolveLatestExpoGo(apiUrl: string) {
+  const response = await fetch(apiUrl);
+  if (!response.ok) {
+    throw new Error(
+      `Expo versions API request failed (${response.status} ${response.statusText}).`
+    );
+  }
+  return pickLatestAndroidClient(await response.json());
+}
+
+function cacheFileName(url: string) {
+  const name = basename(new URL(url).pathname);
+  return name.endsWith('.apk') ? name : `${name || 'expo-go'}.apk`;
+}
+
+export async function downloadApk({
+  url,
+  cacheDir,
+  force = false,
+}: {
+  url: string;
+  cacheDir: string;
+  force?: boolean;
+}) {
+  const targetPath = join(cacheDir, cacheFileName(url));
+  if (!force) {
+    const existing = await stat(targetPath).catch(() => null);
+    if (existing?.isFile() && existing.size > 0) {
+      return { path: targetPath, cached: true, bytes: existing.size };
+    }
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `APK download failed (${response.status} ${response.statusText}): ${url}`
+    );
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length === 0) {
+    throw new Error(`APK download returned an empty body: ${url}`);
+  }
+
+  await mkdir(cacheDir, { recursive: true });
+  const tempPath = `${targetPath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, buffer);
+  await rename(tempPath, targetPath);
+  return { path: targetPath, cached: false, bytes: buffer.length };
+}
@@ -0,0 +1,69 @@
+import { detectErrorOverlay } from '../health.js';
+import type { UIElement } from '../ui-parser.js';
+
+export type ExpoScreenState = 'loading' | 'error' | 'loaded';
+
+const LOADING_PATTERNS = [
+  /^Downloading\b/i,
+  /^Bundling\b/i,
+  /^Building JavaScript bundle/i,
+  /^Loading\b/i,
+  /^Opening project/i,
+  /^Connecting to\b/i,
+  /^\d{1,3}(\.\d+)?%$/,
+];
+
+const ERROR_PATTERNS = [
+  /^Something went wrong/i,
+  /^There was a problem (loading|running)/i,
+  /^Unable to resolve module/i,
+];
+
+const ERROR_CHROME = /^(Dismiss|Reload|Minimize|Copy|Go home|Reload JS|Copy Details)\b/i;
+
+function elementText(element: UIElement) {
+  return (element.text || element.contentDesc).trim();
+}
+
+function isProgressElement(element: UIElement) {
+  return element.class.toLowerCase().includes('progressbar');
+}
+
+export function isExpoLoadingScreen(elements: UIElement[]) {
+  const texts = elements.map(elementText).filter(Boolean);
+  // Without text, only a spinner (or an empty dump) means the bundle is still
+  // loading; blank root views, canvases and image-only screens have loaded.
+  if (texts.length === 0) {
+    return elements.length === 0 || elements.some(isProgressElement);
+  }
+  return texts.every((text) =>
+    LOADING_PATTERNS.some((pattern) => pattern.test(text))
+  );
+}
+
+export function findExpoErrorText(elements: UIElement[]) {
+  const overlay = detectErrorOverlay(elements);
+  if (overlay) {
+    const lines =
+      overlay.kind === 'redbox'
+        ? [overlay.title, ...overlay.stack]
+        : [overlay.title, overlay.message, ...overlay.stack];
+    return lines.filter(Boolean).slice(0, 6).join('\n');
+  }
+  const texts = elements.map(elementText).filter(Boolean);
+  if (!texts.some((text) => ERROR_PATTERNS.some((pattern) => pattern.test(text)))) {
+    return null;
+  }
+  const message = texts.filter((text) => !ERROR_CHROME.test(text));
+  return message.slice(0, 6).join('\n');
+}
+
+export function classifyExpoScreen(elements: UIElement[]): {
+  state: ExpoScreenState;
+  errorText: string | null;
+} {
+  const errorText = findExpoErrorText(elements);
+  if (errorText !== null) return { state: 'error', errorText };
+  if (isExpoLoadingScreen(elements)) return { state: 'loading', errorText: null };
+  return { state: 'loaded', errorText: null };
+}
@@ -0,0 +1,76 @@
+export type FileType = 'file' | 'directory' | 'symlink' | 'other';
+
+export type DirEntry = {
+  name: string;
+  type: FileType;
+  size: number | null;
+  mtime: string | null;
+  permissions: string;
+  owner: string;
+  group: string;
+  linkTarget: string | null;
+};
+
+// Matches toybox `ls -la` and the older toolbox format without a link count;
+// device nodes print "major, minor" instead of a size.
+const LS_LINE_REGEX =
+  /^([-dlcbps][-rwxsStT]{9})[.+@]?\s+(?:\d+\s+)?(\S+)\s+(\S+)\s+(?:(\d+),\s*\d+\s+|(\d+)\s+)?(\d{4}-\d{2}-\d{2} \d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?: [+-]\d{4})?)\s(.+)$/;
+
+const LS_ERROR_REGEX = /^ls: (.*)$/m;
+
+function fileType(flag: string): FileType {
+  if (flag === 'd') return 'directory';
+  if (flag === 'l') return 'symlink';
+  if (flag === '-') return 'file';
+  return 'other';
+}
+
+export function parseLsOutput(output: string) {
+  const entries: DirEntry[] = [];
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    const match = line.match(LS_LINE_REGEX);
+    if (!match) continue;
+    const [, permissions, owner, group, , size, mtime, rest] = match;
+    const type = fileType(permissions[0]);
+    let name = rest;
+    let linkTarget: string | null = null;
+    if (type === 'symlink') {
+      const arrow = rest.indexOf(' -> ');
+      if (arrow !== -1) {
+        name = rest.slice(0, arrow);
+        linkTarget = rest.slice(arrow + 4);
+      }
+    }
+    if (name === '.' || name === '..') continue;
+    entries.push({
+      name,
+      type,
+      size: size === undefined ? null : Number.parseInt(size, 10),
+      mtime: mtime ?? null,
+      permissions,
+      owner,
+      group,
+      linkTarget,
+    });
+  }
+  return entries;
+}
+
+export function findLsError(output: string) {
+  return output.match(LS_ERROR_REGEX)?.[1].trim() ?? null;
+}
+
+// The media scanner only indexes shared storage.
+export function isSharedStorage(remotePath: string) {
+  return /^\/(sdcard|storage|mnt\/sdcard)(\/|$)/.test(remotePath);
+}
+
+// encodeURI would leave `#` and `?`, which Android reads as a fragment/query.
+export function mediaScanUri(remotePath: string) {
+  return `file://${remotePath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export function remoteJoin(directory: string, name: string) {
+  return `${directory.replace(/\/+$/, '')}/${name}`;
+}
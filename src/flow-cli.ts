@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { assertAdbAvailable } from './adb.js';
+import { registerAndroidTools } from './tools/android.js';
+import { registerScrollTools } from './tools/scroll.js';
+import { runFlowFile, summarizeFlow, writeFlowOutputs } from './tools/flow.js';
+
+const USAGE =
+  'Usage: expo-android-flow <flow.yaml> [--env KEY=VALUE]... [--junit report.xml] [--json report.json] [--serial SERIAL]';
+
+function parseEnv(pairs: string[]) {
+  const env: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid --env value "${pair}"; expected KEY=VALUE.`);
+    }
+    env[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return env;
+}
+
+let options: {
+  path: string;
+  env: Record<string, string>;
+  junit?: string;
+  json?: string;
+  serial?: string;
+};
+try {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      env: { type: 'string', multiple: true },
+      junit: { type: 'string' },
+      json: { type: 'string' },
+      serial: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positionals.length !== 1) throw new Error('Expected exactly one flow file.');
+  options = {
+    path: positionals[0],
+    env: parseEnv(values.env ?? []),
+    junit: values.junit,
+    json: values.json,
+    serial: values.serial,
+  };
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  console.error(USAGE);
+  process.exit(2);
+}
+
+// Registering the tools fills the handler registry that flows run through.
+const server = new McpServer({ name: 'expo-android-flow', version: '0.0.0' });
+registerAndroidTools(server);
+registerScrollTools(server);
+
+try {
+  await assertAdbAvailable();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+const report = await runFlowFile(options.path, {
+  env: options.env,
+  serial: options.serial,
+});
+for (const step of report.steps) {
+  const mark =
+    step.status === 'passed' ? '✓' : step.status === 'failed' ? '✗' : '-';
+  const detail = step.message ? ` — ${step.message}` : '';
+  console.log(
+    `${mark} ${step.index}. ${step.description} (${step.durationMs}ms)${detail}`
+  );
+}
+await writeFlowOutputs(report, {
+  junitPath: options.junit,
+  jsonPath: options.json,
+});
+console.log(summarizeFlow(report));
+process.exit(report.passed ? 0 : 1);
@@ -0,0 +1,322 @@
+import { isAbsolute, resolve } from 'node:path';
+import { parseAllDocuments } from 'yaml';
+
+export const FLOW_COMMANDS = [
+  'launchApp',
+  'tapOn',
+  'inputText',
+  'assertVisible',
+  'assertNotVisible',
+  'scrollUntilVisible',
+  'waitFor',
+  'back',
+  'screenshot',
+  'runFlow',
+] as const;
+
+export type FlowCommand = (typeof FLOW_COMMANDS)[number];
+
+export type FlowStep = {
+  command: FlowCommand;
+  value: unknown;
+};
+
+export type FlowConfig = {
+  name?: string;
+  appId?: string;
+  env: Record<string, string>;
+};
+
+export type Flow = {
+  config: FlowConfig;
+  steps: FlowStep[];
+};
+
+export type ToolCall = {
+  tool: string;
+  args: Record<string, unknown>;
+};
+
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
+export type StepReport = {
+  index: number;
+  flow: string;
+  command: FlowCommand;
+  description: string;
+  status: StepStatus;
+  durationMs: number;
+  message?: string;
+};
+
+export type FlowReport = {
+  name: string;
+  path: string;
+  passed: boolean;
+  startedAt: string;
+  durationMs: number;
+  steps: StepReport[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseStep(raw: unknown, index: number): FlowStep {
+  let command: unknown = raw;
+  let value: unknown;
+  if (isRecord(raw)) {
+    const keys = Object.keys(raw);
+    if (keys.length !== 1) {
+      throw new Error(
+        `Step ${index + 1}: expected a single command, got ${keys.length} keys.`
+      );
+    }
+    command = keys[0];
+    value = raw[keys[0]];
+  }
+  if (
+    typeof command !== 'string' ||
+    !(FLOW_COMMANDS as readonly string[]).includes(command)
+  ) {
+    throw new Error(
+      `Step ${index + 1}: unknown command ${JSON.stringify(command)}. Expected one of ${FLOW_COMMANDS.join(', ')}.`
+    );
+  }
+  return { command: command as FlowCommand, value: value ?? null };
+}
+
+function parseConfig(raw: unknown): FlowConfig {
+  if (raw === null || raw === undefined) return { env: {} };
+  if (!isRecord(raw)) throw new Error('Flow config must be a mapping.');
+  const env: Record<string, string> = {};
+  if (raw.env !== undefined) {
+    if (!isRecord(raw.env)) throw new Error('Flow env must be a mapping.');
+    for (const [key, value] of Object.entries(raw.env)) {
+      env[key] = String(value);
+    }
+  }
+  return {
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    appId: typeof raw.appId === 'string' ? raw.appId : undefined,
+    env,
+  };
+}
+
+// Accepts either a config document and a steps document separated by `---`,
+// a bare list of steps, or a single mapping with a `steps` key.
+export function parseFlow(text: string): Flow {
+  const documents = parseAllDocuments(text);
+  if (!Array.isArray(documents)) return { config: { env: {} }, steps: [] };
+  for (const document of documents) {
+    if (document.errors.length > 0) {
+      throw new Error(`Invalid YAML: ${document.errors[0].message}`);
+    }
+  }
+  const values = documents.map((document) => document.toJS() as unknown);
+
+  let config: unknown = null;
+  let steps: unknown;
+  if (values.length === 2) {
+    [config, steps] = values;
+  } else if (values.length === 1 && Array.isArray(values[0])) {
+    steps = values[0];
+  } else if (values.length === 1 && isRecord(values[0])) {
+    const { steps: list, ...rest } = values[0];
+    config = rest;
+    steps = list;
+  } else {
+    throw new Error(
+      'A flow is a list of steps, optionally preceded by a config document.'
+    );
+  }
+  if (!Array.isArray(steps)) throw new Error('Flow steps must be a list.');
+  return { config: parseConfig(config), steps: steps.map(parseStep) };
+}
+
+export function substituteVariables(
+  value: unknown,
+  env: Record<string, string>
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+      if (!(name in env)) throw new Error(`Undefined variable \${${name}}.`);
+      return env[name];
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteVariables(item, env));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        substituteVariables(item, env),
+      ])
+    );
+  }
+  return value;
+}
+
+const SELECTOR_ALIASES: Record<string, string> = {
+  id: 'resourceId',
+  idContains: 'resourceIdContains',
+};
+
+function toSelector(value: unknown, command: string) {
+  if (typeof value === 'string') return { text: value };
+  if (!isRecord(value)) {
+    throw new Error(`${command} expects text or an element selector.`);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      SELECTOR_ALIASES[key] ?? key,
+      item,
+    ])
+  );
+}
+
+function pick(value: Record<string, unknown>, ...keys: string[]) {
+  const rest = { ...value };
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (rest[key] !== undefined) picked[key] = rest[key];
+    delete rest[key];
+  }
+  return { picked, rest };
+}
+
+export function planStep(
+  step: FlowStep,
+  { appId, baseDir }: { appId?: string; baseDir: string }
+): ToolCall {
+  const { command, value } = step;
+  switch (command) {
+    case 'launchApp': {
+      const packageName =
+        typeof value === 'string'
+          ? value
+          : isRecord(value) && typeof value.appId === 'string'
+            ? value.appId
+            : appId;
+      if (!packageName) {
+        throw new Error('launchApp needs an appId in the step or flow config.');
+      }
+      return { tool: 'openApp', args: { packageName } };
+    }
+    case 'tapOn': {
+      if (isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number') {
+        return { tool: 'tap', args: { x: value.x, y: value.y } };
+      }
+      return { tool: 'tapElement', args: toSelector(value, command) };
+    }
+    case 'inputText': {
+      const text = isRecord(value) ? value.text : value;
+      if (typeof text !== 'string' && typeof text !== 'number') {
+        throw new Error('inputText expects a string.');
+      }
+      return { tool: 'inputText', args: { text: String(text) } };
+    }
+    case 'assertVisible':
+      return { tool: 'assertElement', args: toSelector(value, command) };
+    case 'assertNotVisible':
+      return {
+        tool: 'assertElement',
+        args: { ...toSelector(value, command), shouldExist: false },
+      };
+    case 'scrollUntilVisible': {
+      if (isRecord(value) && value.element !== undefined) {
+        const { picked } = pick(value, 'direction', 'maxSwipes', 'container');
+        return {
+          tool: 'scrollToElement',
+          args: {
+            ...toSelector(value.element, command),
+            ...picked,
+            ...(picked.container
+              ? { container: toSelector(picked.container, command) }
+              : {}),
+          },
+        };
+      }
+      return { tool: 'scrollToElement', args: toSelector(value, command) };
+    }
+    case 'waitFor': {
+      const selector = toSelector(value, command);
+      const { picked, rest } = pick(selector, 'timeout');
+      return { tool: 'waitForElement', args: { ...rest, ...picked } };
+    }
+    case 'back':
+      return { tool: 'keyEvent', args: { keyCode: 'KEYCODE_BACK' } };
+    case 'screenshot': {
+      const path = isRecord(value) ? value.path : value;
+      if (typeof path !== 'string' || path === '') {
+        throw new Error('screenshot expects a file path.');
+      }
+      return {
+        tool: 'screenshot',
+        args: {
+          mode: 'path',
+          path: isAbsolute(path) ? path : resolve(baseDir, path),
+        },
+      };
+    }
+    case 'runFlow':
+      throw new Error('runFlow steps are expanded by the runner.');
+  }
+}
+
+export function describeStep(step: FlowStep) {
+  if (step.value === null) return step.command;
+  const detail =
+    typeof step.value === 'string' ? step.value : JSON.stringify(step.value);
+  return `${step.command}: ${detail}`;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: number) {
+  return (ms / 1000).toFixed(3);
+}
+
+export function toJUnitXml(reports: FlowReport[]) {
+  const count = (status: StepStatus, steps: StepReport[]) =>
+    steps.filter((step) => step.status === status).length;
+  const all = reports.flatMap((report) => report.steps);
+  const totalMs = reports.reduce((sum, report) => sum + report.durationMs, 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="expo-android" tests="${all.length}" failures="${count('failed', all)}" skipped="${count('skipped', all)}" time="${seconds(totalMs)}">`,
+  ];
+  for (const report of reports) {
+    const name = escapeXml(report.name);
+    lines.push(
+      `  <testsuite name="${name}" tests="${report.steps.length}" failures="${count('failed', report.steps)}" skipped="${count('skipped', report.steps)}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`
+    );
+    for (const step of report.steps) {
+      const open = `    <testcase classname="${escapeXml(step.flow)}" name="${escapeXml(`${step.index}. ${step.description}`)}" time="${seconds(step.durationMs)}"`;
+      if (step.status === 'passed') {
+        lines.push(`${open} />`);
+      } else if (step.status === 'skipped') {
+        lines.push(`${open}>`, '      <skipped />', '    </testcase>');
+      } else {
+        const message = escapeXml(step.message ?? 'Step failed.');
+        lines.push(
+          `${open}>`,
+          `      <failure message="${message}">${message}</failure>`,
+          '    </testcase>'
+        );
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,317 @@
+export type Point = {
+  x: number;
+  y: number;
+};
+
+export type TouchDevice = {
+  path: string;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  hasSlots: boolean;
+  hasPressure: boolean;
+  hasBtnTouch: boolean;
+};
+
+export type ScreenSize = {
+  width: number;
+  height: number;
+};
+
+export const MOTIONEVENT_MIN_SDK = 29;
+
+const EV_SYN = 0;
+const EV_KEY = 1;
+const EV_ABS = 3;
+const SYN_REPORT = 0;
+const BTN_TOUCH = 330;
+const ABS_MT_SLOT = 47;
+const ABS_MT_POSITION_X = 53;
+const ABS_MT_POSITION_Y = 54;
+const ABS_MT_TRACKING_ID = 57;
+const ABS_MT_PRESSURE = 58;
+
+function round(point: Point): Point {
+  return { x: Math.round(point.x), y: Math.round(point.y) };
+}
+
+// Resamples a polyline into `steps + 1` points spaced evenly along its length.
+export function interpolatePath(points: Point[], steps: number): Point[] {
+  if (points.length === 0) throw new Error('A gesture path needs at least one point.');
+  const count = Math.max(1, Math.round(steps));
+  if (points.length === 1) {
+    return Array.from({ length: count + 1 }, () => round(points[0]));
+  }
+
+  const lengths = [0];
+  for (let i = 1; i < points.length; i += 1) {
+    const previous = points[i - 1];
+    lengths.push(
+      lengths[i - 1] +
+        Math.hypot(points[i].x - previous.x, points[i].y - previous.y)
+    );
+  }
+  const total = lengths[lengths.length - 1];
+
+  const result: Point[] = [];
+  let segment = 1;
+  for (let step = 0; step <= count; step += 1) {
+    const distance = total === 0 ? 0 : (total * step) / count;
+    while (segment < points.length - 1 && lengths[segment] < distance) {
+      segment += 1;
+    }
+    const start = points[segment - 1];
+    const end = points[segment];
+    const span = lengths[segment] - lengths[segment - 1];
+    const t = span === 0 ? 0 : (distance - lengths[segment - 1]) / span;
+    result.push(
+      round({
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+      })
+    );
+  }
+  return result;
+}
+
+export function pinchPaths({
+  center,
+  startDistance,
+  endDistance,
+  angle = 0,
+}: {
+  center: Point;
+  startDistance: number;
+  endDistance: number;
+  angle?: number;
+}): Point[][] {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  const at = (distance: number, sign: number) => ({
+    x: center.x + (sign * dx * distance) / 2,
+    y: center.y + (sign * dy * distance) / 2,
+  });
+  return [
+    [at(startDistance, -1), at(endDistance, -1)],
+    [at(startDistance, 1), at(endDistance, 1)],
+  ];
+}
+
+export function rotatePaths({
+  center,
+  radius,
+  degrees,
+  startAngle = 0,
+  segments = 12,
+}: {
+  center: Point;
+  radius: number;
+  degrees: number;
+  startAngle?: number;
+  segments?: number;
+}): Point[][] {
+  const arc = (offset: number) =>
+    Array.from({ length: segments + 1 }, (_, index) => {
+      const angle =
+        ((startAngle + offset + (degrees * index) / segments) * Math.PI) / 180;
+      return {
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle),
+      };
+    });
+  return [arc(180), arc(0)];
+}
+
+export function parseSdkLevel(output: string) {
+  const level = Number.parseInt(output.trim(), 10);
+  return Number.isNaN(level) ? null : level;
+}
+
+export function parseScreenSize(output: string): ScreenSize | null {
+  const override = output.match(/Override size:\s*(\d+)x(\d+)/);
+  const physical = output.match(/Physical size:\s*(\d+)x(\d+)/);
+  const match = override ?? physical;
+  return match
+    ? { width: Number(match[1]), height: Number(match[2]) }
+    : null;
+}
+
+// Picks the first direct-input device reporting multi-touch positions from
+// `getevent -pl`.
+export function parseTouchDevice(output: string): TouchDevice | null {
+  const devices = output.split(/^add device \d+:\s*/m).slice(1);
+  const candidates: Array<{ device: TouchDevice; direct: boolean }> = [];
+  for (const block of devices) {
+    const path = block.split('\n')[0].trim();
+    const axis = (name: string) => {
+      const match = block.match(
+        new RegExp(`${name}\\s*:\\s*value -?\\d+, min (-?\\d+), max (-?\\d+)`)
+      );
+      return match ? { min: Number(match[1]), max: Number(match[2]) } : null;
+    };
+    const x = axis('ABS_MT_POSITION_X');
+    const y = axis('ABS_MT_POSITION_Y');
+    if (!x || !y) continue;
+    candidates.push({
+      device: {
+        path,
+        minX: x.min,
+        maxX: x.max,
+        minY: y.min,
+        maxY: y.max,
+        hasSlots: axis('ABS_MT_SLOT') !== null,
+        hasPressure: axis('ABS_MT_PRESSURE') !== null,
+        hasBtnTouch: /\bBTN_TOUCH\b/.test(block),
+      },
+      direct: /INPUT_PROP_DIRECT/.test(block),
+    });
+  }
+  const match =
+    candidates.find((candidate) => candidate.direct) ?? candidates[0];
+  return match?.device ?? null;
+}
+
+function sleepCommand(ms: number) {
+  return `sleep ${(ms / 1000).toFixed(3)}`;
+}
+
+type MotionEventOptions = { holdMs?: number; stepDelayMs?: number };
+
+export function motionEventCommands(
+  path: Point[],
+  { holdMs = 0, stepDelayMs = 0 }: MotionEventOptions = {}
+) {
+  const [first, ...rest] = path;
+  const last = path[path.length - 1];
+  const commands = [`input motionevent DOWN ${first.x} ${first.y}`];
+  if (holdMs > 0) commands.push(sleepCommand(holdMs));
+  for (const point of rest) {
+    commands.push(`input motionevent MOVE ${point.x} ${point.y}`);
+    if (stepDelayMs > 0) commands.push(sleepCommand(stepDelayMs));
+  }
+  commands.push(`input motionevent UP ${last.x} ${last.y}`);
+  return commands;
+}
+
+export function buildMotionEventScript(
+  path: Point[],
+  options: MotionEventOptions = {}
+) {
+  return motionEventCommands(path, options).join(' && ');
+}
+
+function toRaw(point: Point, device: TouchDevice, screen: ScreenSize) {
+  const scale = (value: number, size: number, min: number, max: number) =>
+    Math.min(
+      max,
+      Math.max(min, Math.round(min + (value / size) * (max - min)))
+    );
+  return {
+    x: scale(point.x, screen.width, device.minX, device.maxX),
+    y: scale(point.y, screen.height, device.minY, device.maxY),
+  };
+}
+
+// Emits a multi-touch protocol B stream: one slot and tracking id per pointer,
+// one SYN_REPORT per frame. Every path must have the same number of points.
+export function buildSendeventScript(
+  paths: Point[][],
+  device: TouchDevice,
+  screen: ScreenSize,
+  { holdMs = 0, frameDelayMs = 0 }: { holdMs?: number; frameDelayMs?: number } = {}
+) {
+  if (paths.length === 0) throw new Error('A gesture needs at least one pointer.');
+  if (paths.length > 1 && !device.hasSlots) {
+    throw new Error(`${device.path} does not support multi-touch slots.`);
+  }
+  const frames = paths[0].length;
+  if (paths.some((path) => path.length !== frames)) {
+    throw new Error('All pointer paths must have the same number of points.');
+  }
+
+  const commands: string[] = [];
+  const event = (type: number, code: number, value: number) =>
+    commands.push(`sendevent ${device.path} ${type} ${code} ${value}`);
+  const syn = () => event(EV_SYN, SYN_REPORT, 0);
+
+  for (let frame = 0; frame < frames; frame += 1) {
+    paths.forEach((path, pointer) => {
+      const raw = toRaw(path[frame], device, screen);
+      if (device.hasSlots) event(EV_ABS, ABS_MT_SLOT, pointer);
+      if (frame === 0) {
+        event(EV_ABS, ABS_MT_TRACKING_ID, pointer + 1);
+        if (device.hasPressure) event(EV_ABS, ABS_MT_PRESSURE, 50);
+      }
+      event(EV_ABS, ABS_MT_POSITION_X, raw.x);
+      event(EV_ABS, ABS_MT_POSITION_Y, raw.y);
+    });
+    if (frame === 0 && device.hasBtnTouch) event(EV_KEY, BTN_TOUCH, 1);
+    syn();
+    if (frame === 0 && holdMs > 0) commands.push(sleepCommand(holdMs));
+    else if (frameDelayMs > 0) commands.push(sleepCommand(frameDelayMs));
+  }
+
+  paths.forEach((_, pointer) => {
+    if (device.hasSlots) event(EV_ABS, ABS_MT_SLOT, pointer);
+    event(EV_ABS, ABS_MT_TRACKING_ID, -1);
+  });
+  if (device.hasBtnTouch) event(EV_KEY, BTN_TOUCH, 0);
+  syn();
+  return commands.join(' && ');
+}
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+export const SWIPE_SPEEDS = {
+  slow: 600,
+  normal: 1500,
+  fast: 4000,
+} as const;
+
+// `direction` is the way the finger travels. Both ends are clamped to the
+// screen inset by `margin` so the gesture avoids the status and navigation
+// bars and the system back-gesture edges.
+export function elementSwipe(
+  bounds: { x1: number; y1: number; x2: number; y2: number },
+  direction: SwipeDirection,
+  {
+    percent = 60,
+    margin = 0,
+    screen,
+  }: { percent?: number; margin?: number; screen?: ScreenSize } = {}
+) {
+  const cx = (bounds.x1 + bounds.x2) / 2;
+  const cy = (bounds.y1 + bounds.y2) / 2;
+  const vertical = direction === 'up' || direction === 'down';
+  const span = vertical ? bounds.y2 - bounds.y1 : bounds.x2 - bounds.x1;
+  const half = (span * percent) / 100 / 2;
+  const sign = direction === 'down' || direction === 'right' ? 1 : -1;
+
+  const clamp = (value: number, size: number | undefined) =>
+    Math.round(
+      size === undefined
+        ? value
+        : Math.min(size - 1 - margin, Math.max(margin, value))
+    );
+  const point = (offset: number) => ({
+    x: clamp(vertical ? cx : cx + offset, screen?.width),
+    y: clamp(vertical ? cy + offset : cy, screen?.height),
+  });
+  const start = point(-sign * half);
+  const end = point(sign * half);
+  return { x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+}
+
+export function swipeDuration(
+  coordinates: { x1: number; y1: number; x2: number; y2: number },
+  speed: keyof typeof SWIPE_SPEEDS | number
+) {
+  const pixelsPerSecond = typeof speed === 'number' ? speed : SWIPE_SPEEDS[speed];
+  const distance = Math.hypot(
+    coordinates.x2 - coordinates.x1,
+    coordinates.y2 - coordinates.y1
+  );
+  return Math.max(50, Math.round((distance / pixelsPerSecond) * 1000));
+}
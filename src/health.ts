@@ -0,0 +1,171 @@
+import type { LogEntry } from './logcat.js';
+import type { UIElement } from './ui-parser.js';
+
+export type CrashEvent = {
+  type: 'crash' | 'anr' | 'native';
+  timestamp: string;
+  epoch: number;
+  pid: number;
+  message: string;
+  details: string[];
+};
+
+export type ForegroundActivity = {
+  packageName: string;
+  activity: string;
+};
+
+export type ErrorOverlay = {
+  kind: 'redbox' | 'logbox';
+  title: string;
+  message: string;
+  stack: string[];
+};
+
+const MAX_DETAIL_LINES = 40;
+
+function collectFollowing(
+  entries: LogEntry[],
+  start: number,
+  matches: (entry: LogEntry) => boolean
+) {
+  const lines: string[] = [];
+  for (let i = start + 1; i < entries.length; i += 1) {
+    const entry = entries[i];
+    if (!matches(entry)) continue;
+    if (lines.length >= MAX_DETAIL_LINES) break;
+    lines.push(entry.message);
+  }
+  return lines;
+}
+
+export function detectCrashes(entries: LogEntry[], packageName: string) {
+  const events: CrashEvent[] = [];
+  const processLine = `Process: ${packageName},`;
+  const nativeName = `(${packageName})`;
+
+  entries.forEach((entry, index) => {
+    const base = {
+      timestamp: entry.timestamp,
+      epoch: entry.epoch,
+      pid: entry.pid,
+    };
+    if (
+      entry.tag === 'AndroidRuntime' &&
+      entry.message.startsWith('FATAL EXCEPTION')
+    ) {
+      const details = collectFollowing(
+        entries,
+        index,
+        (next) => next.tag === 'AndroidRuntime' && next.pid === entry.pid
+      );
+      if (!details.some((line) => line.startsWith(processLine))) return;
+      const message =
+        details.find((line) => !line.startsWith('Process:')) ?? entry.message;
+      events.push({ ...base, type: 'crash', message, details });
+      return;
+    }
+
+    const anr = entry.message.match(/^ANR in (\S+)/);
+    if (anr && anr[1] === packageName) {
+      const details = collectFollowing(
+        entries,
+        index,
+        (next) => next.tag === entry.tag && next.pid === entry.pid
+      ).slice(0, 10);
+      events.push({ ...base, type: 'anr', message: entry.message, details });
+      return;
+    }
+
+    if (
+      entry.tag === 'libc' &&
+      entry.message.startsWith('Fatal signal') &&
+      entry.message.includes(nativeName)
+    ) {
+      const details = collectFollowing(
+        entries,
+        index,
+        (next) => next.tag === 'DEBUG'
+      );
+      events.push({ ...base, type: 'native', message: entry.message, details });
+    }
+  });
+
+  return events;
+}
+
+export function parseForegroundActivity(
+  output: string
+): ForegroundActivity | null {
+  const match = output.match(
+    /(?:topResumedActivity|mResumedActivity|ResumedActivity)[:=]\s*ActivityRecord\{\S+ \S+ ([^/\s]+)\/(\S+)/
+  );
+  if (match) {
+    return { packageName: match[1], activity: match[2] };
+  }
+  const focus = output.match(
+    /mCurrentFocus=Window\{\S+ \S+ ([^/\s}]+)\/([^\s}]+)/
+  );
+  return focus ? { packageName: focus[1], activity: focus[2] } : null;
+}
+
+const REDBOX_BUTTONS = /^(Dismiss \(ESC\)|Reload \(R, .*\)|Copy|Report)$/i;
+const LOGBOX_TITLES = new Set([
+  'Render Error',
+  'Uncaught Error',
+  'Syntax Error',
+  'Console Error',
+  'Failed to compile',
+]);
+const LOGBOX_CHROME =
+  /^(Dismiss|Minimize|Reload|Copy|Log \d+ of \d+|\d+ of \d+|‹|›|<|>)$/i;
+const LOGBOX_SECTIONS = /^(Call Stack|Component Stack|Source)$/;
+
+function elementText(element: UIElement) {
+  return (element.text || element.contentDesc).trim();
+}
+
+function detectRedBox(
+  elements: UIElement[],
+  texts: string[]
+): ErrorOverlay | null {
+  const isRedBox =
+    texts.some((text) => /^Dismiss \(ESC\)$|^Reload \(R, /i.test(text)) ||
+    elements.some((element) => element.resourceId.includes('rn_redbox'));
+  if (!isRedBox) return null;
+  const body = texts.filter((text) => !REDBOX_BUTTONS.test(text));
+  const [title = 'Red box', ...stack] = body;
+  return { kind: 'redbox', title, message: title, stack };
+}
+
+function detectLogBox(texts: string[]): ErrorOverlay | null {
+  const titleIndex = texts.findIndex((text) => LOGBOX_TITLES.has(text));
+  if (titleIndex === -1) return null;
+  if (!texts.some((text) => /^(Dismiss|Minimize)$/i.test(text))) return null;
+
+  const rest = texts
+    .slice(titleIndex + 1)
+    .filter((text) => !LOGBOX_CHROME.test(text));
+  const sectionIndex = rest.findIndex((text) => LOGBOX_SECTIONS.test(text));
+  const messageLines =
+    sectionIndex === -1 ? rest.slice(0, 1) : rest.slice(0, sectionIndex);
+  const stack =
+    sectionIndex === -1
+      ? rest.slice(1)
+      : rest
+          .slice(sectionIndex + 1)
+          .filter((text) => !LOGBOX_SECTIONS.test(text));
+  return {
+    kind: 'logbox',
+    title: texts[titleIndex],
+    message: messageLines.join('\n'),
+    stack,
+  };
+}
+
+export function detectErrorOverlay(
+  elements: UIElement[]
+): ErrorOverlay | null {
+  const texts = elements.map(elementText).filter(Boolean);
+  return detectRedBox(elements, texts) ?? detectLogBox(texts);
+}
@@ -0,0 +1,187 @@
+import { shellQuote } from './shell.js';
+
+export type IntentExtra =
+  | { key: string; type: 'string'; value: string }
+  | { key: string; type: 'int'; value: number }
+  | { key: string; type: 'long'; value: number | string }
+  | { key: string; type: 'float'; value: number }
+  | { key: string; type: 'bool'; value: boolean }
+  | { key: string; type: 'stringArray'; value: string[] };
+
+export type IntentSpec = {
+  action?: string;
+  data?: string;
+  mimeType?: string;
+  component?: string;
+  packageName?: string;
+  categories?: string[];
+  flags?: Array<string | number>;
+  extras?: IntentExtra[];
+};
+
+export type LaunchTiming = {
+  status: string | null;
+  activity: string | null;
+  thisTime: number | null;
+  totalTime: number | null;
+  waitTime: number | null;
+};
+
+export type BroadcastResult = {
+  completed: boolean;
+  resultCode: number | null;
+  resultData: string | null;
+};
+
+export const INTENT_FLAGS: Record<string, number> = {
+  FLAG_GRANT_READ_URI_PERMISSION: 0x00000001,
+  FLAG_GRANT_WRITE_URI_PERMISSION: 0x00000002,
+  FLAG_INCLUDE_STOPPED_PACKAGES: 0x00000020,
+  FLAG_RECEIVER_FOREGROUND: 0x10000000,
+  FLAG_ACTIVITY_NO_HISTORY: 0x40000000,
+  FLAG_ACTIVITY_SINGLE_TOP: 0x20000000,
+  FLAG_ACTIVITY_NEW_TASK: 0x10000000,
+  FLAG_ACTIVITY_MULTIPLE_TASK: 0x08000000,
+  FLAG_ACTIVITY_CLEAR_TOP: 0x04000000,
+  FLAG_ACTIVITY_FORWARD_RESULT: 0x02000000,
+  FLAG_ACTIVITY_PREVIOUS_IS_TOP: 0x01000000,
+  FLAG_ACTIVITY_EXCLUDE_FROM_RECENTS: 0x00800000,
+  FLAG_ACTIVITY_BROUGHT_TO_FRONT: 0x00400000,
+  FLAG_ACTIVITY_RESET_TASK_IF_NEEDED: 0x00200000,
+  FLAG_ACTIVITY_NO_ANIMATION: 0x00010000,
+  FLAG_ACTIVITY_REORDER_TO_FRONT: 0x00020000,
+  FLAG_ACTIVITY_CLEAR_TASK: 0x00008000,
+  FLAG_ACTIVITY_TASK_ON_HOME: 0x00004000,
+};
+
+export function resolveIntentFlags(flags: Array<string | number>) {
+  let combined = 0;
+  for (const flag of flags) {
+    if (typeof flag === 'number') {
+      combined |= flag;
+      continue;
+    }
+    const trimmed = flag.trim();
+    if (/^(0x[0-9a-f]+|\d+)$/i.test(trimmed)) {
+      combined |= Number(trimmed);
+      continue;
+    }
+    const name = trimmed.startsWith('FLAG_') ? trimmed : `FLAG_${trimmed}`;
+    const value = INTENT_FLAGS[name.toUpperCase()];
+    if (value === undefined) {
+      throw new Error(`Unknown intent flag: ${flag}`);
+    }
+    combined |= value;
+  }
+  return combined >>> 0;
+}
+
+function extraArgs(extra: IntentExtra): string[] {
+  const key = shellQuote(extra.key);
+  switch (extra.type) {
+    case 'string':
+      return ['--es', key, shellQuote(extra.value)];
+    case 'int':
+      if (!Number.isInteger(extra.value)) {
+        throw new Error(`Extra ${extra.key} must be an integer.`);
+      }
+      return ['--ei', key, String(extra.value)];
+    case 'long':
+      if (!/^-?\d+$/.test(String(extra.value))) {
+        throw new Error(`Extra ${extra.key} must be an integer.`);
+      }
+      return ['--el', key, String(extra.value)];
+    case 'float':
+      return ['--ef', key, String(extra.value)];
+    case 'bool':
+      return ['--ez', key, extra.value ? 'true' : 'false'];
+    case 'stringArray':
+      return [
+        '--esa',
+        key,
+        shellQuote(
+          extra.value.map((item) => item.replace(/,/g, '\\,')).join(',')
+        ),
+      ];
+  }
+}
+
+export function buildIntentArgs(spec: IntentSpec) {
+  const args: string[] = [];
+  if (spec.action) args.push('-a', shellQuote(spec.action));
+  if (spec.data) args.push('-d', shellQuote(spec.data));
+  if (spec.mimeType) args.push('-t', shellQuote(spec.mimeType));
+  for (const category of spec.categories ?? []) {
+    args.push('-c', shellQuote(category));
+  }
+  if (spec.component) args.push('-n', shellQuote(spec.component));
+  if (spec.flags && spec.flags.length > 0) {
+    args.push('-f', `0x${resolveIntentFlags(spec.flags).toString(16)}`);
+  }
+  for (const extra of spec.extras ?? []) {
+    args.push(...extraArgs(extra));
+  }
+  if (spec.packageName && !spec.component) {
+    args.push(shellQuote(spec.packageName));
+  }
+  return args;
+}
+
+export function buildStartActivityCommand(
+  spec: IntentSpec,
+  {
+    wait = true,
+    forceStop = false,
+  }: { wait?: boolean; forceStop?: boolean } = {}
+) {
+  const args = ['am', 'start'];
+  if (wait) args.push('-W');
+  if (forceStop) args.push('-S');
+  return [...args, ...buildIntentArgs(spec)].join(' ');
+}
+
+export function buildBroadcastCommand(
+  spec: IntentSpec,
+  { receiverPermission }: { receiverPermission?: string } = {}
+) {
+  const args = ['am', 'broadcast'];
+  if (receiverPermission) {
+    args.push('--receiver-permission', shellQuote(receiverPermission));
+  }
+  return [...args, ...buildIntentArgs(spec)].join(' ');
+}
+
+export function findAmError(output: string) {
+  const match = output.match(
+    /^(Error(?: type \d+)?:.*|Exception occurred.*|java\.lang\.\w+Exception.*)$/m
+  );
+  return match ? match[1].trim() : null;
+}
+
+export function parseLaunchTiming(output: string): LaunchTiming {
+  const number = (key: string) => {
+    const match = output.match(new RegExp(`^${key}:\\s*(\\d+)`, 'm'));
+    return match ? Number.parseInt(match[1], 10) : null;
+  };
+  return {
+    status: output.match(/^Status:\s*(\S+)/m)?.[1] ?? null,
+    activity: output.match(/^Activity:\s*(\S+)/m)?.[1] ?? null,
+    thisTime: number('ThisTime'),
+    totalTime: number('TotalTime'),
+    waitTime: number('WaitTime'),
+  };
+}
+
+export function parseBroadcastResult(output: string): BroadcastResult {
+  const match = output.match(
+    /Broadcast completed: result=(-?\d+)(?:, data="([^"]*)")?/
+  );
+  if (!match) {
+    return { completed: false, resultCode: null, resultData: null };
+  }
+  return {
+    completed: true,
+    resultCode: Number.parseInt(match[1], 10),
+    resultData: match[2] ?? null,
+  };
+}
@@ -0,0 +1,105 @@
+export type LogPriority = 'V' | 'D' | 'I' | 'W' | 'E' | 'F';
+
+export type LogEntry = {
+  epoch: number;
+  timestamp: string;
+  pid: number;
+  tid: number;
+  level: LogPriority;
+  tag: string;
+  message: string;
+};
+
+export type LogFilter = {
+  pids?: number[];
+  tag?: string;
+  minPriority?: LogPriority;
+  pattern?: string;
+};
+
+export type LogCursor = {
+  epoch: number;
+  seen: string[];
+};
+
+const PRIORITIES: LogPriority[] = ['V', 'D', 'I', 'W', 'E', 'F'];
+
+const LINE_REGEX =
+  /^\s*(\d+\.\d+)\s+(\d+)\s+(\d+)\s+([VDIWEFA])\s+(.*?)\s*: (.*)$/;
+
+function entryKey(entry: LogEntry) {
+  return `${entry.pid}/${entry.tid}/${entry.level}/${entry.tag}/${entry.message}`;
+}
+
+export function priorityRank(level: LogPriority) {
+  return PRIORITIES.indexOf(level);
+}
+
+export function parseLogcatLine(line: string): LogEntry | null {
+  const match = line.match(LINE_REGEX);
+  if (!match) return null;
+  const epoch = Number.parseFloat(match[1]);
+  // logcat prints ASSERT as "A"; fold it into FATAL for filtering.
+  const level = (match[4] === 'A' ? 'F' : match[4]) as LogPriority;
+  return {
+    epoch,
+    timestamp: new Date(Math.round(epoch * 1000)).toISOString(),
+    pid: Number.parseInt(match[2], 10),
+    tid: Number.parseInt(match[3], 10),
+    level,
+    tag: match[5],
+    message: match[6],
+  };
+}
+
+export function parseLogcat(output: string) {
+  const entries: LogEntry[] = [];
+  for (const line of output.split('\n')) {
+    const entry = parseLogcatLine(line.replace(/\r$/, ''));
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+export function filterLogEntries(entries: LogEntry[], filter: LogFilter) {
+  const regex = filter.pattern ? new RegExp(filter.pattern) : null;
+  const minRank = filter.minPriority ? priorityRank(filter.minPriority) : 0;
+  return entries.filter((entry) => {
+    if (filter.pids && !filter.pids.includes(entry.pid)) return false;
+    if (filter.tag !== undefined && entry.tag !== filter.tag) return false;
+    if (priorityRank(entry.level) < minRank) return false;
+    if (regex && !regex.test(entry.message) && !regex.test(entry.tag)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function applyLogCursor(entries: LogEntry[], cursor?: LogCursor) {
+  const fresh = cursor
+    ? entries.filter(
+        (entry) =>
+          entry.epoch > cursor.epoch ||
+          (entry.epoch === cursor.epoch &&
+            !cursor.seen.includes(entryKey(entry)))
+      )
+    : entries;
+  const last = entries[entries.length - 1];
+  if (!last) {
+    return { entries: fresh, cursor };
+  }
+  const seen = entries
+    .filter((entry) => entry.epoch === last.epoch)
+    .map(entryKey);
+  if (cursor && cursor.epoch === last.epoch) {
+    seen.push(...cursor.seen);
+  }
+  return {
+    entries: fresh,
+    cursor: { epoch: last.epoch, seen: [...new Set(seen)] },
+  };
+}
+
+export function formatLogTime(epoch: number) {
+  return epoch.toFixed(3);
+}
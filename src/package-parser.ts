@@ -0,0 +1,154 @@
+export type PackageVersion = {
+  packageName: string;
+  installed: boolean;
+  versionName: string | null;
+  versionCode: number | null;
+};
+
+function packageSection(output: string, packageName: string) {
+  const header = `Package [${packageName}]`;
+  const start = output.indexOf(header);
+  if (start === -1) return null;
+  const rest = output.slice(start + header.length);
+  const next = rest.search(/\n\s*Package \[/);
+  return next === -1 ? rest : rest.slice(0, next);
+}
+
+export function parsePackageVersion(
+  output: string,
+  packageName: string
+): PackageVersion {
+  const section = packageSection(output, packageName);
+  if (section === null) {
+    return { packageName, installed: false, versionName: null, versionCode: null };
+  }
+  const versionName = section.match(/versionName=(\S+)/)?.[1] ?? null;
+  const versionCodeMatch = section.match(/versionCode=(\d+)/);
+  const versionCode = versionCodeMatch
+    ? Number.parseInt(versionCodeMatch[1], 10)
+    : null;
+  return { packageName, installed: true, versionName, versionCode };
+}
+
+export type PackageInfo = PackageVersion & {
+  minSdk: number | null;
+  targetSdk: number | null;
+  firstInstallTime: string | null;
+  lastUpdateTime: string | null;
+  installerPackageName: string | null;
+  codePath: string | null;
+  enabled: boolean | null;
+  launchableActivity: string | null;
+  requestedPermissions: string[];
+  grantedPermissions: string[];
+  deniedPermissions: string[];
+};
+
+export type PackageListEntry = {
+  packageName: string;
+  versionCode: number | null;
+};
+
+function matchNumber(section: string, pattern: RegExp) {
+  const match = section.match(pattern);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
+
+// Lines indented deeper than the header that follows `title`.
+function indentedBlock(section: string, title: RegExp) {
+  const lines = section.split('\n');
+  const start = lines.findIndex((line) => title.test(line));
+  if (start === -1) return [];
+  const indent = lines[start].search(/\S/);
+  const block: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim() === '') continue;
+    if (line.search(/\S/) <= indent) break;
+    block.push(line.trim());
+  }
+  return block;
+}
+
+// The resolver tables at the top of `dumpsys package` list MAIN activities
+// with their filters; the launchable one carries the LAUNCHER category.
+export function parseLaunchableActivity(output: string, packageName: string) {
+  const tables = output.split(/\nPackages:\n/)[0];
+  const entry = new RegExp(
+    `^\\s*[0-9a-f]+ (${packageName.replace(/\./g, '\\.')}/\\S+) filter`
+  );
+  let current: string | null = null;
+  for (const line of tables.split('\n')) {
+    if (/^\s*[0-9a-f]+ \S+\/\S+ filter/.test(line)) {
+      current = line.match(entry)?.[1] ?? null;
+    } else if (
+      current &&
+      line.includes('Category: "android.intent.category.LAUNCHER"')
+    ) {
+      return current;
+    }
+  }
+  return null;
+}
+
+export function parsePackageInfo(
+  output: string,
+  packageName: string
+): PackageInfo {
+  const version = parsePackageVersion(output, packageName);
+  const section = packageSection(output, packageName) ?? '';
+  const text = (pattern: RegExp) => section.match(pattern)?.[1].trim() ?? null;
+
+  const granted = new Set<string>();
+  const denied = new Set<string>();
+  const permissionLines = [
+    ...indentedBlock(section, /^\s*install permissions:/),
+    ...indentedBlock(section, /^\s*runtime permissions:/),
+  ];
+  for (const line of permissionLines) {
+    const match = line.match(/^([\w.]+): granted=(true|false)/);
+    if (!match) continue;
+    (match[2] === 'true' ? granted : denied).add(match[1]);
+  }
+  const enabledMatch = section.match(/\benabled=(\d)/);
+
+  return {
+    ...version,
+    minSdk: matchNumber(section, /\bminSdk=(\d+)/),
+    targetSdk: matchNumber(section, /\btargetSdk=(\d+)/),
+    firstInstallTime: text(/firstInstallTime=(.+)/),
+    lastUpdateTime: text(/lastUpdateTime=(.+)/),
+    installerPackageName: text(/installerPackageName=(\S+)/),
+    codePath: text(/codePath=(\S+)/),
+    // 0 (default) and 1 mean enabled; 2-4 are the disabled states.
+    enabled: enabledMatch ? ['0', '1'].includes(enabledMatch[1]) : null,
+    launchableActivity: version.installed
+      ? parseLaunchableActivity(output, packageName)
+      : null,
+    requestedPermissions: indentedBlock(section, /^\s*requested permissions:/)
+      .map((line) => line.split(/[\s:]/)[0])
+      .filter(Boolean),
+    grantedPermissions: [...granted].sort(),
+    deniedPermissions: [...denied].filter((name) => !granted.has(name)).sort(),
+  };
+}
+
+export function parsePackageList(output: string): PackageListEntry[] {
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('package:'))
+    .map((line) => {
+      const [name] = line.slice('package:'.length).split(/\s+/);
+      const versionCode = line.match(/versionCode:(\d+)/)?.[1];
+      return {
+        packageName: name,
+        versionCode: versionCode ? Number.parseInt(versionCode, 10) : null,
+      };
+    });
+}
+
+export function findPmFailure(output: string) {
+  if (/^Success\b/m.test(output)) return null;
+  const match = output.match(/(Failure \[[^\]]+\]|Error:.*|Exception.*)/);
+  return match ? match[1].trim() : output.trim() || 'No output.';
+}
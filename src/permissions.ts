@@ -0,0 +1,102 @@
+import type { UIElement } from './ui-parser.js';
+
+export type DialogPolicy = 'allow' | 'allowWhileUsing' | 'deny';
+
+export type DialogButton =
+  | 'allow'
+  | 'allowAlways'
+  | 'allowForeground'
+  | 'allowOnce'
+  | 'deny'
+  | 'denyDontAsk';
+
+export type PermissionDialog = {
+  packageName: string;
+  message: string;
+  buttons: Partial<Record<DialogButton, UIElement>>;
+};
+
+export type AppOp = {
+  op: string;
+  mode: string;
+};
+
+export const PERMISSION_DIALOG_PACKAGES = [
+  'com.android.permissioncontroller',
+  'com.google.android.permissioncontroller',
+  'com.android.packageinstaller',
+  'com.google.android.packageinstaller',
+];
+
+const BUTTON_IDS: Record<string, DialogButton> = {
+  permission_allow_button: 'allow',
+  permission_allow_always_button: 'allowAlways',
+  permission_allow_foreground_only_button: 'allowForeground',
+  permission_allow_one_time_button: 'allowOnce',
+  permission_deny_button: 'deny',
+  permission_deny_and_dont_ask_again_button: 'denyDontAsk',
+};
+
+// Not every Android version offers every button; fall back to the closest one.
+const POLICY_BUTTONS: Record<DialogPolicy, DialogButton[]> = {
+  allow: ['allowAlways', 'allow', 'allowForeground', 'allowOnce'],
+  allowWhileUsing: ['allowForeground', 'allow', 'allowOnce'],
+  deny: ['deny', 'denyDontAsk'],
+};
+
+function splitResourceId(resourceId: string) {
+  const separator = resourceId.indexOf(':id/');
+  if (separator === -1) return null;
+  return {
+    packageName: resourceId.slice(0, separator),
+    id: resourceId.slice(separator + 4),
+  };
+}
+
+export function detectPermissionDialog(
+  elements: UIElement[]
+): PermissionDialog | null {
+  let packageName: string | null = null;
+  let message = '';
+  const buttons: PermissionDialog['buttons'] = {};
+  for (const element of elements) {
+    const parts = splitResourceId(element.resourceId);
+    if (!parts || !PERMISSION_DIALOG_PACKAGES.includes(parts.packageName)) {
+      continue;
+    }
+    if (parts.id === 'permission_message') message = element.text;
+    const button = BUTTON_IDS[parts.id];
+    if (button && element.enabled) {
+      buttons[button] = element;
+      packageName = parts.packageName;
+    }
+  }
+  return packageName ? { packageName, message, buttons } : null;
+}
+
+export function chooseDialogButton(
+  dialog: PermissionDialog,
+  policy: DialogPolicy
+) {
+  for (const button of POLICY_BUTTONS[policy]) {
+    const element = dialog.buttons[button];
+    if (element) return { button, element };
+  }
+  return null;
+}
+
+export function normalizePermission(permission: string) {
+  return permission.includes('.')
+    ? permission
+    : `android.permission.${permission.toUpperCase()}`;
+}
+
+// `appops get <package>` prints lines like "CAMERA: allow; time=+1m ago".
+export function parseAppOps(output: string): AppOp[] {
+  const ops: AppOp[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(/^([A-Z][A-Z0-9_]*): (\w+)/);
+    if (match) ops.push({ op: match[1], mode: match[2] });
+  }
+  return ops;
+}
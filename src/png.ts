@@ -0,0 +1,242 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+function unfilter(raw: Buffer, height: number, stride: number, bpp: number) {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y += 1) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prior = row - stride;
+    for (let x = 0; x < stride; x += 1) {
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[prior + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prior + x - bpp] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter} on row ${y}.`);
+      }
+      out[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+// Decodes non-interlaced PNGs of any color type into 8-bit RGBA.
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG file.');
+  }
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const body = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      if (body[12] !== 0) throw new Error('Interlaced PNGs are not supported.');
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  const channels = CHANNELS[colorType];
+  if (!width || !height || channels === undefined) {
+    throw new Error('PNG is missing a valid IHDR chunk.');
+  }
+  if (colorType === 3 && !palette) throw new Error('Palette PNG has no PLTE chunk.');
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const pixels = unfilter(
+    inflateSync(Buffer.concat(idat)),
+    height,
+    stride,
+    Math.max(1, bitsPerPixel >> 3)
+  );
+
+  const sample = (row: number, index: number) => {
+    if (bitDepth === 8) return pixels[row + index];
+    if (bitDepth === 16) return pixels[row + index * 2];
+    const bit = index * bitDepth;
+    return (
+      (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) &
+      ((1 << bitDepth) - 1)
+    );
+  };
+  const scale = bitDepth < 8 ? 255 / ((1 << bitDepth) - 1) : 1;
+
+  const image = createImage(width, height);
+  const { data } = image;
+  for (let y = 0; y < height; y += 1) {
+    const row = y * stride;
+    for (let x = 0; x < width; x += 1) {
+      const target = (y * width + x) * 4;
+      const base = x * channels;
+      if (colorType === 3) {
+        const index = sample(row, x);
+        data[target] = palette![index * 3];
+        data[target + 1] = palette![index * 3 + 1];
+        data[target + 2] = palette![index * 3 + 2];
+        data[target + 3] =
+          transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = Math.round(sample(row, base) * scale);
+        data[target] = gray;
+        data[target + 1] = gray;
+        data[target + 2] = gray;
+        data[target + 3] = colorType === 4 ? sample(row, base + 1) : 255;
+      } else {
+        data[target] = sample(row, base);
+        data[target + 1] = sample(row, base + 1);
+        data[target + 2] = sample(row, base + 2);
+        data[target + 3] = colorType === 6 ? sample(row, base + 3) : 255;
+      }
+    }
+  }
+  return image;
+}
+
+function chunk(type: string, body: Buffer) {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+  return Buffer.concat([header, body, crc]);
+}
+
+export function encodePng(image: RgbaImage) {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y += 1) {
+    // Sub filter: flat UI areas compress far better than unfiltered rows.
+    const target = y * (stride + 1);
+    raw[target] = 1;
+    for (let x = 0; x < stride; x += 1) {
+      const value = data[y * stride + x];
+      const left = x >= 4 ? data[y * stride + x - 4] : 0;
+      raw[target + 1 + x] = (value - left) & 0xff;
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Rounds the rectangle outward to whole pixels and clips it to the image.
+export function clampRect(rect: Rect, width: number, height: number): Rect {
+  const left = Math.max(0, Math.floor(rect.x));
+  const top = Math.max(0, Math.floor(rect.y));
+  const right = Math.min(width, Math.ceil(rect.x + rect.width));
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height));
+  if (right <= left || bottom <= top) {
+    throw new Error(
+      `Region ${rect.width}x${rect.height}+${rect.x}+${rect.y} lies outside the ${width}x${height} image.`
+    );
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function cropImage(image: RgbaImage, rect: Rect): RgbaImage {
+  const { x, y, width, height } = clampRect(rect, image.width, image.height);
+  const cropped = createImage(width, height);
+  for (let row = 0; row < height; row += 1) {
+    const start = ((y + row) * image.width + x) * 4;
+    cropped.data.set(
+      image.data.subarray(start, start + width * 4),
+      row * width * 4
+    );
+  }
+  return cropped;
+}
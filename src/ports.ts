@@ -0,0 +1,54 @@
+export type PortMappingType = 'reverse' | 'forward';
+
+export type PortMapping = {
+  type: PortMappingType;
+  transport: string;
+  device: string;
+  host: string;
+};
+
+export function toSocketSpec(value: number | string) {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value <= 0 || value > 65535) {
+      throw new Error(`Invalid port: ${value}`);
+    }
+    return `tcp:${value}`;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return toSocketSpec(Number(trimmed));
+  if (!/^[a-z]+:\S+$/.test(trimmed)) {
+    throw new Error(`Invalid socket spec: ${value}`);
+  }
+  return trimmed;
+}
+
+export function parsePortMappings(
+  output: string,
+  type: PortMappingType
+): PortMapping[] {
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => line.split(/\s+/))
+    .filter((parts) => parts.length >= 3)
+    .map(([transport, first, second]) =>
+      // `reverse --list` prints device then host; `forward --list` prints host then device.
+      type === 'reverse'
+        ? { type, transport, device: first, host: second }
+        : { type, transport, device: second, host: first }
+    );
+}
+
+export function findMissingReverse(
+  mappings: PortMapping[],
+  ports: number[]
+) {
+  return ports.filter(
+    (port) =>
+      !mappings.some(
+        (mapping) =>
+          mapping.type === 'reverse' && mapping.device === `tcp:${port}`
+      )
+  );
+}
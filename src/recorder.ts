@@ -0,0 +1,159 @@
+import { extname } from 'node:path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { findElements, type FindCriteria, type UIElement } from './ui-parser.js';
+
+export type ElementSummary = {
+  text: string;
+  resourceId: string;
+  contentDesc: string;
+  class: string;
+  path: string;
+};
+
+export type RecordedStep = {
+  tool: string;
+  args: Record<string, unknown>;
+  coordinates?: { x: number; y: number };
+  element?: ElementSummary;
+};
+
+export type RecordingScript = {
+  version: 1;
+  recordedAt: string;
+  steps: RecordedStep[];
+};
+
+export type ScriptFormat = 'json' | 'yaml';
+
+function contains(element: UIElement, x: number, y: number) {
+  const { x1, y1, x2, y2 } = element.bounds;
+  return x >= x1 && x < x2 && y >= y1 && y < y2;
+}
+
+// The deepest node under the point; later siblings are drawn on top.
+export function elementAtPoint(elements: UIElement[], x: number, y: number) {
+  let hit: UIElement | null = null;
+  for (const element of elements) {
+    if (!contains(element, x, y)) continue;
+    if (!hit || element.depth >= hit.depth) hit = element;
+  }
+  return hit;
+}
+
+export function summarizeElement(element: UIElement): ElementSummary {
+  return {
+    text: element.text,
+    resourceId: element.resourceId,
+    contentDesc: element.contentDesc,
+    class: element.class,
+    path: element.path,
+  };
+}
+
+// Returns the shortest criteria that identifies the element, falling back to
+// an index among equal matches.
+export function selectorFor(
+  elements: UIElement[],
+  element: UIElement
+): { criteria: FindCriteria; index?: number } | null {
+  const candidates: FindCriteria[] = [];
+  if (element.resourceId) candidates.push({ resourceId: element.resourceId });
+  if (element.text) candidates.push({ text: element.text });
+  if (element.contentDesc) candidates.push({ contentDesc: element.contentDesc });
+  if (element.resourceId && element.text) {
+    candidates.push({ resourceId: element.resourceId, text: element.text });
+  }
+  if (candidates.length === 0) return null;
+
+  for (const criteria of candidates) {
+    const matches = findElements(elements, criteria);
+    if (matches.length === 1 && matches[0].nodeId === element.nodeId) {
+      return { criteria };
+    }
+  }
+  const criteria = candidates[candidates.length - 1];
+  const index = findElements(elements, criteria).findIndex(
+    (match) => match.nodeId === element.nodeId
+  );
+  return index === -1 ? null : { criteria, index };
+}
+
+export function coordinateTapStep(
+  elements: UIElement[],
+  x: number,
+  y: number
+): RecordedStep {
+  const element = elementAtPoint(elements, x, y);
+  const selector = element ? selectorFor(elements, element) : null;
+  if (!element || !selector) {
+    return {
+      tool: 'tap',
+      args: { x, y },
+      coordinates: { x, y },
+      ...(element ? { element: summarizeElement(element) } : {}),
+    };
+  }
+  return {
+    tool: 'tapElement',
+    args: {
+      ...selector.criteria,
+      ...(selector.index !== undefined ? { index: selector.index } : {}),
+      preferClickable: false,
+      tapClickableAncestor: false,
+    },
+    coordinates: { x, y },
+    element: summarizeElement(element),
+  };
+}
+
+export function scriptFormat(filePath: string): ScriptFormat {
+  return extname(filePath).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
+
+export function serializeScript(script: RecordingScript, format: ScriptFormat) {
+  return format === 'json'
+    ? `${JSON.stringify(script, null, 2)}\n`
+    : stringifyYaml(script);
+}
+
+export function parseScript(text: string, format: ScriptFormat): RecordingScript {
+  const data = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  if (!data || typeof data !== 'object' || !Array.isArray(data.steps)) {
+    throw new Error('Script must be an object with a steps array.');
+  }
+  data.steps.forEach((step: unknown, index: number) => {
+    const candidate = step as Partial<RecordedStep> | null;
+    if (!candidate || typeof candidate.tool !== 'string') {
+      throw new Error(`Step ${index + 1} is missing a tool name.`);
+    }
+    if (
+      candidate.args !== undefined &&
+      (typeof candidate.args !== 'object' || Array.isArray(candidate.args))
+    ) {
+      throw new Error(`Step ${index + 1} args must be an object.`);
+    }
+  });
+  return {
+    version: 1,
+    recordedAt: String(data.recordedAt ?? ''),
+    steps: data.steps.map((step: RecordedStep) => ({
+      ...step,
+      args: step.args ?? {},
+    })),
+  };
+}
+
+// Tools report soft failures in structuredContent instead of throwing.
+export function stepFailure(result: {
+  isError?: boolean;
+  content?: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, unknown>;
+}) {
+  const text = result.content?.find((item) => item.type === 'text')?.text;
+  if (result.isError) return text ?? 'Tool returned an error.';
+  const data = result.structuredContent ?? {};
+  for (const key of ['tapped', 'found', 'passed']) {
+    if (data[key] === false) return text ?? `${key} is false.`;
+  }
+  return null;
+}
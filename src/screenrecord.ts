@@ -0,0 +1,92 @@
+import { extname } from 'node:path';
+
+// screenrecord refuses to record longer than this in one go.
+export const SCREENRECORD_MAX_SECONDS = 180;
+
+export type ScreenRecordOptions = {
+  size?: string;
+  bitRate?: number;
+  timeLimit?: number;
+  maxDuration?: number;
+};
+
+export function segmentCount({
+  timeLimit = SCREENRECORD_MAX_SECONDS,
+  maxDuration = timeLimit,
+}: ScreenRecordOptions) {
+  return Math.max(1, Math.ceil(maxDuration / timeLimit));
+}
+
+export function buildScreenRecordArgs({
+  size,
+  bitRate,
+  timeLimit = SCREENRECORD_MAX_SECONDS,
+}: ScreenRecordOptions) {
+  if (size !== undefined && !/^\d+x\d+$/.test(size)) {
+    throw new Error(
+      `Invalid size "${size}"; expected WIDTHxHEIGHT, e.g. 720x1280.`
+    );
+  }
+  if (timeLimit < 1 || timeLimit > SCREENRECORD_MAX_SECONDS) {
+    throw new Error(
+      `timeLimit must be between 1 and ${SCREENRECORD_MAX_SECONDS} seconds.`
+    );
+  }
+  const args: string[] = [];
+  if (size) args.push('--size', size);
+  if (bitRate) args.push('--bit-rate', String(Math.round(bitRate)));
+  args.push('--time-limit', String(Math.round(timeLimit)));
+  return args;
+}
+
+export function segmentPath(prefix: string, index: number | string) {
+  return `${prefix}-${index}.mp4`;
+}
+
+// Runs screenrecord back to back so sessions can outlast the 3-minute cap.
+// The loop is detached with nohup and prints its pid for stopScreenRecord.
+export function buildRecordLoopScript(
+  prefix: string,
+  options: ScreenRecordOptions
+) {
+  const args = buildScreenRecordArgs(options).join(' ');
+  const segments = segmentCount(options);
+  const loop =
+    `i=0; while [ $i -lt ${segments} ]; do ` +
+    `screenrecord ${args} ${segmentPath(prefix, '$i')} || break; ` +
+    'i=$((i+1)); done';
+  return `nohup sh -c '${loop}' > ${prefix}.log 2>&1 < /dev/null & echo $!`;
+}
+
+// Stops the loop before the running segment so no new one starts, then sends
+// SIGINT so screenrecord finalizes the mp4. Prints the segment's pid, if any.
+export function buildStopScript(loopPid: number) {
+  return (
+    `c=$(pgrep -P ${loopPid} screenrecord); kill ${loopPid} 2>/dev/null; ` +
+    `[ -n "$c" ] && kill -INT $c; echo $c`
+  );
+}
+
+export function parseSegmentList(output: string, prefix: string) {
+  const pattern = new RegExp(
+    `^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-(\\d+)\\.mp4$`
+  );
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .map((line) => ({ line, match: line.match(pattern) }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map(({ line }) => line);
+}
+
+// One segment keeps the requested name; more become name-1.mp4, name-2.mp4...
+export function localSegmentPaths(path: string, count: number) {
+  if (count <= 1) return [path];
+  const extension = extname(path) || '.mp4';
+  const base = extname(path) ? path.slice(0, -extension.length) : path;
+  return Array.from(
+    { length: count },
+    (_, index) => `${base}-${index + 1}${extension}`
+  );
+}
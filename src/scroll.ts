@@ -0,0 +1,139 @@
+import type { Bounds, UIElement } from './ui-parser.js';
+
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+export type SwipeCoordinates = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+};
+
+// `direction` is where the content moves into view: scrolling "down"
+// reveals items further down the list, so the finger travels upward.
+export function scrollSwipe(
+  bounds: Bounds,
+  direction: ScrollDirection,
+  fraction = 0.6
+): SwipeCoordinates {
+  const cx = Math.round((bounds.x1 + bounds.x2) / 2);
+  const cy = Math.round((bounds.y1 + bounds.y2) / 2);
+  const halfX = Math.round(((bounds.x2 - bounds.x1) * fraction) / 2);
+  const halfY = Math.round(((bounds.y2 - bounds.y1) * fraction) / 2);
+  switch (direction) {
+    case 'down':
+      return { x1: cx, y1: cy + halfY, x2: cx, y2: cy - halfY };
+    case 'up':
+      return { x1: cx, y1: cy - halfY, x2: cx, y2: cy + halfY };
+    case 'right':
+      return { x1: cx + halfX, y1: cy, x2: cx - halfX, y2: cy };
+    case 'left':
+      return { x1: cx - halfX, y1: cy, x2: cx + halfX, y2: cy };
+  }
+}
+
+export function isWithinBounds(inner: Bounds, outer: Bounds) {
+  return (
+    inner.x2 > inner.x1 &&
+    inner.y2 > inner.y1 &&
+    inner.x1 >= outer.x1 &&
+    inner.y1 >= outer.y1 &&
+    inner.x2 <= outer.x2 &&
+    inner.y2 <= outer.y2
+  );
+}
+
+export function isDescendantOf(element: UIElement, container: UIElement) {
+  return element.path.startsWith(`${container.path}/`);
+}
+
+export function isFullyVisible(element: UIElement, container: UIElement) {
+  if (!isDescendantOf(element, container)) {
+    const { x1, y1, x2, y2 } = element.bounds;
+    return x2 > x1 && y2 > y1;
+  }
+  return isWithinBounds(element.bounds, container.bounds);
+}
+
+export function containerSignature(elements: UIElement[], container: UIElement) {
+  return elements
+    .filter((element) => isDescendantOf(element, container))
+    .map((element) => {
+      const { x1, y1, x2, y2 } = element.bounds;
+      return [
+        element.class,
+        element.text,
+        element.resourceId,
+        element.contentDesc,
+        `${x1},${y1},${x2},${y2}`,
+      ].join('|');
+    })
+    .join('\n');
+}
+
+export type CollectedItem = {
+  key: string;
+  element: UIElement;
+  texts: string[];
+};
+
+function intersects(a: Bounds, b: Bounds) {
+  return a.x1 < b.x2 && a.x2 > b.x1 && a.y1 < b.y2 && a.y2 > b.y1;
+}
+
+export function descendantTexts(elements: UIElement[], element: UIElement) {
+  return elements
+    .filter((candidate) => isDescendantOf(candidate, element))
+    .map((candidate) => (candidate.text || candidate.contentDesc).trim())
+    .filter(Boolean);
+}
+
+// Items come back in scroll order and are keyed by their content and their
+// offset across the scroll axis, which stays stable while the list moves.
+export function collectPageItems(
+  elements: UIElement[],
+  matches: UIElement[],
+  container: UIElement,
+  direction: ScrollDirection
+): CollectedItem[] {
+  const vertical = direction === 'up' || direction === 'down';
+  const sign = direction === 'up' || direction === 'left' ? -1 : 1;
+  const box = container.bounds;
+  return matches
+    .filter((element) => intersects(element.bounds, box))
+    .sort(
+      (a, b) =>
+        sign *
+        (vertical ? a.bounds.y1 - b.bounds.y1 : a.bounds.x1 - b.bounds.x1)
+    )
+    .map((element) => {
+      const texts = descendantTexts(elements, element);
+      const { x1, y1, x2, y2 } = element.bounds;
+      const offset = vertical
+        ? `x${x1 - box.x1}-${x2 - box.x1}`
+        : `y${y1 - box.y1}-${y2 - box.y1}`;
+      const key = [
+        element.class,
+        element.resourceId,
+        element.text,
+        element.contentDesc,
+        texts.join('\n'),
+        offset,
+      ].join('|');
+      return { key, element, texts };
+    });
+}
+
+// Appends a page after the longest run it shares with the end of what was
+// already collected; without an overlap only unseen items are added.
+export function mergeCollected(collected: CollectedItem[], page: CollectedItem[]) {
+  const maxOverlap = Math.min(collected.length, page.length);
+  for (let overlap = maxOverlap; overlap > 0; overlap -= 1) {
+    const tail = collected.slice(collected.length - overlap);
+    if (tail.every((item, index) => item.key === page[index].key)) {
+      return [...collected, ...page.slice(overlap)];
+    }
+  }
+  const seen = new Set(collected.map((item) => item.key));
+  return [...collected, ...page.filter((item) => !seen.has(item.key))];
+}
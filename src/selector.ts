@@ -0,0 +1,620 @@
+import type { UIElement } from './ui-parser.js';
+
+type Axis =
+  | 'child'
+  | 'descendant'
+  | 'descendant-or-self'
+  | 'self'
+  | 'parent'
+  | 'ancestor'
+  | 'ancestor-or-self'
+  | 'following-sibling'
+  | 'preceding-sibling';
+
+type Step = {
+  axis: Axis;
+  test: string;
+  predicates: Expr[];
+};
+
+type PathExpr = {
+  type: 'path';
+  absolute: boolean;
+  steps: Step[];
+};
+
+type Expr =
+  | PathExpr
+  | { type: 'or' | 'and'; left: Expr; right: Expr }
+  | { type: 'cmp'; op: CmpOp; left: Expr; right: Expr }
+  | { type: 'literal'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'attr'; name: string }
+  | { type: 'call'; name: string; args: Expr[]; regex?: RegExp };
+
+type CmpOp = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Token = {
+  kind: 'op' | 'name' | 'string' | 'number' | 'end';
+  value: string;
+  position: number;
+};
+
+export type CompiledSelector = {
+  source: string;
+  path: PathExpr;
+};
+
+const AXES = new Set<string>([
+  'child',
+  'descendant',
+  'descendant-or-self',
+  'self',
+  'parent',
+  'ancestor',
+  'ancestor-or-self',
+  'following-sibling',
+  'preceding-sibling',
+]);
+
+const FUNCTIONS: Record<string, [number, number]> = {
+  'text': [0, 0],
+  'contains': [2, 2],
+  'starts-with': [2, 2],
+  'ends-with': [2, 2],
+  'matches': [2, 3],
+  'not': [1, 1],
+  'position': [0, 0],
+  'last': [0, 0],
+  'count': [1, 1],
+  'normalize-space': [0, 1],
+  'lower-case': [1, 1],
+};
+
+const ATTRIBUTE_ALIASES: Record<string, keyof UIElement> = {
+  'text': 'text',
+  'class': 'class',
+  'resource-id': 'resourceId',
+  'resourceId': 'resourceId',
+  'content-desc': 'contentDesc',
+  'contentDesc': 'contentDesc',
+  'index': 'index',
+  'checkable': 'checkable',
+  'checked': 'checked',
+  'clickable': 'clickable',
+  'long-clickable': 'longClickable',
+  'longClickable': 'longClickable',
+  'enabled': 'enabled',
+  'focused': 'focused',
+  'scrollable': 'scrollable',
+  'selected': 'selected',
+  'path': 'path',
+  'depth': 'depth',
+};
+
+const NODE_TEST = 'node()';
+
+function tokenize(source: string, fail: (message: string, position: number) => never) {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    const two = source.slice(i, i + 2);
+    if (['//', '..', '::', '!=', '<=', '>='].includes(two)) {
+      tokens.push({ kind: 'op', value: two, position: i });
+      i += 2;
+      continue;
+    }
+    if ('/.[]()@,=*<>'.includes(char)) {
+      tokens.push({ kind: 'op', value: char, position: i });
+      i += 1;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) fail('unterminated string literal', i);
+      tokens.push({ kind: 'string', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+    const number = source.slice(i).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.-]*/);
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+    fail(`unexpected character "${char}"`, i);
+  }
+  tokens.push({ kind: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly fail: (message: string, position: number) => never
+  ) {}
+
+  private peek(offset = 0) {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next() {
+    const token = this.peek();
+    this.index += 1;
+    return token;
+  }
+
+  private isOp(value: string, offset = 0) {
+    const token = this.peek(offset);
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private expectOp(value: string) {
+    const token = this.next();
+    if (token.kind !== 'op' || token.value !== value) {
+      this.fail(`expected "${value}" but found ${describe(token)}`, token.position);
+    }
+  }
+
+  parseSelector(): PathExpr {
+    const path = this.parsePath();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      this.fail(`unexpected ${describe(token)}`, token.position);
+    }
+    return path;
+  }
+
+  private parsePath(): PathExpr {
+    const steps: Step[] = [];
+    let absolute = false;
+    if (this.isOp('/') || this.isOp('//')) {
+      absolute = true;
+      if (this.next().value === '//') {
+        steps.push({ axis: 'descendant-or-self', test: NODE_TEST, predicates: [] });
+      }
+    }
+    steps.push(this.parseStep());
+    while (this.isOp('/') || this.isOp('//')) {
+      if (this.next().value === '//') {
+        steps.push({ axis: 'descendant-or-self', test: NODE_TEST, predicates: [] });
+      }
+      steps.push(this.parseStep());
+    }
+    return { type: 'path', absolute, steps };
+  }
+
+  private parseStep(): Step {
+    if (this.isOp('..')) {
+      this.next();
+      return { axis: 'parent', test: NODE_TEST, predicates: [] };
+    }
+    if (this.isOp('.')) {
+      this.next();
+      return { axis: 'self', test: NODE_TEST, predicates: [] };
+    }
+
+    let axis: Axis = 'child';
+    const token = this.peek();
+    if (token.kind === 'name' && this.isOp('::', 1)) {
+      if (!AXES.has(token.value)) {
+        this.fail(`unknown axis "${token.value}"`, token.position);
+      }
+      axis = token.value as Axis;
+      this.next();
+      this.next();
+    }
+
+    const testToken = this.next();
+    let test: string;
+    if (testToken.kind === 'op' && testToken.value === '*') {
+      test = '*';
+    } else if (testToken.kind === 'name') {
+      test = testToken.value;
+      if (test === 'node' && this.isOp('(') && this.isOp(')', 1)) {
+        this.next();
+        this.next();
+        test = NODE_TEST;
+      }
+    } else {
+      this.fail(`expected a node name but found ${describe(testToken)}`, testToken.position);
+    }
+
+    const predicates: Expr[] = [];
+    while (this.isOp('[')) {
+      this.next();
+      predicates.push(this.parseOr());
+      this.expectOp(']');
+    }
+    return { axis, test, predicates };
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.peek().kind === 'name' && this.peek().value === 'or') {
+      this.next();
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseComparison();
+    while (this.peek().kind === 'name' && this.peek().value === 'and') {
+      this.next();
+      left = { type: 'and', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    if (token.kind === 'op' && ['=', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.next();
+      return {
+        type: 'cmp',
+        op: token.value as CmpOp,
+        left,
+        right: this.parsePrimary(),
+      };
+    }
+    return left;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+    if (token.kind === 'op' && token.value === '(') {
+      this.next();
+      const expr = this.parseOr();
+      this.expectOp(')');
+      return expr;
+    }
+    if (token.kind === 'string') {
+      this.next();
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'number') {
+      this.next();
+      return { type: 'number', value: Number(token.value) };
+    }
+    if (token.kind === 'op' && token.value === '@') {
+      this.next();
+      const name = this.next();
+      if (name.kind !== 'name') {
+        this.fail(`expected an attribute name after "@"`, name.position);
+      }
+      if (!(name.value in ATTRIBUTE_ALIASES)) {
+        this.fail(`unknown attribute "@${name.value}"`, name.position);
+      }
+      return { type: 'attr', name: name.value };
+    }
+    if (token.kind === 'name' && this.isOp('(', 1) && token.value !== 'node') {
+      return this.parseCall();
+    }
+    if (
+      token.kind === 'name' ||
+      (token.kind === 'op' && ['.', '..', '*', '/', '//'].includes(token.value))
+    ) {
+      return this.parsePath();
+    }
+    return this.fail(`unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseCall(): Expr {
+    const nameToken = this.next();
+    const arity = FUNCTIONS[nameToken.value];
+    if (!arity) {
+      this.fail(`unknown function "${nameToken.value}()"`, nameToken.position);
+    }
+    this.expectOp('(');
+    const args: Expr[] = [];
+    if (!this.isOp(')')) {
+      args.push(this.parseOr());
+      while (this.isOp(',')) {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+    this.expectOp(')');
+    const [min, max] = arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : `${min}-${max}`;
+      this.fail(
+        `${nameToken.value}() expects ${expected} argument(s), got ${args.length}`,
+        nameToken.position
+      );
+    }
+
+    const call: Expr = { type: 'call', name: nameToken.value, args };
+    if (nameToken.value === 'matches' && args[1].type === 'literal') {
+      const flags = args[2]?.type === 'literal' ? args[2].value : '';
+      try {
+        call.regex = new RegExp(args[1].value, flags);
+      } catch (error) {
+        this.fail(
+          `invalid regex in matches(): ${error instanceof Error ? error.message : String(error)}`,
+          nameToken.position
+        );
+      }
+    }
+    return call;
+  }
+}
+
+function describe(token: Token) {
+  if (token.kind === 'end') return 'end of selector';
+  if (token.kind === 'string') return `string '${token.value}'`;
+  return `"${token.value}"`;
+}
+
+export function parseSelector(source: string): CompiledSelector {
+  const fail = (message: string, position: number): never => {
+    throw new Error(
+      `Invalid selector at position ${position}: ${message}.\n  ${source}\n  ${' '.repeat(position)}^`
+    );
+  };
+  if (source.trim() === '') {
+    fail('selector is empty', 0);
+  }
+  const tokens = tokenize(source, fail);
+  const path = new Parser(tokens, fail).parseSelector();
+  // A bare step such as `TextView[@text='OK']` searches the whole tree.
+  if (!path.absolute && path.steps[0].axis === 'child') {
+    path.absolute = true;
+    path.steps.unshift({ axis: 'descendant-or-self', test: NODE_TEST, predicates: [] });
+  }
+  return { source, path };
+}
+
+const ROOT = Symbol('root');
+type Context = UIElement | typeof ROOT;
+type Value = string | number | boolean | Context[];
+
+type Tree = {
+  elements: UIElement[];
+  byId: Map<number, UIElement>;
+  roots: UIElement[];
+  order: Map<Context, number>;
+};
+
+function buildTree(elements: UIElement[]): Tree {
+  const byId = new Map(elements.map((element) => [element.nodeId, element]));
+  const roots = elements.filter(
+    (element) => element.parentId === null || !byId.has(element.parentId)
+  );
+  const order = new Map<Context, number>([[ROOT, -1]]);
+  elements.forEach((element, position) => order.set(element, position));
+  return { elements, byId, roots, order };
+}
+
+function children(tree: Tree, context: Context) {
+  if (context === ROOT) return tree.roots;
+  return context.childIds
+    .map((id) => tree.byId.get(id))
+    .filter((child): child is UIElement => Boolean(child));
+}
+
+function parent(tree: Tree, context: Context): Context | null {
+  if (context === ROOT) return null;
+  if (context.parentId === null) return ROOT;
+  return tree.byId.get(context.parentId) ?? ROOT;
+}
+
+function descendants(tree: Tree, context: Context) {
+  const result: UIElement[] = [];
+  const visit = (node: Context) => {
+    for (const child of children(tree, node)) {
+      result.push(child);
+      visit(child);
+    }
+  };
+  visit(context);
+  return result;
+}
+
+function axisNodes(tree: Tree, context: Context, axis: Axis): Context[] {
+  switch (axis) {
+    case 'child':
+      return children(tree, context);
+    case 'descendant':
+      return descendants(tree, context);
+    case 'descendant-or-self':
+      return [context, ...descendants(tree, context)];
+    case 'self':
+      return [context];
+    case 'parent': {
+      const up = parent(tree, context);
+      return up === null ? [] : [up];
+    }
+    case 'ancestor':
+    case 'ancestor-or-self': {
+      const result: Context[] = axis === 'ancestor-or-self' ? [context] : [];
+      let up = parent(tree, context);
+      while (up !== null) {
+        result.push(up);
+        up = parent(tree, up);
+      }
+      return result;
+    }
+    case 'following-sibling':
+    case 'preceding-sibling': {
+      const up = parent(tree, context);
+      if (up === null || context === ROOT) return [];
+      const siblings = children(tree, up);
+      const position = siblings.indexOf(context);
+      return axis === 'following-sibling'
+        ? siblings.slice(position + 1)
+        : siblings.slice(0, position).reverse();
+    }
+  }
+}
+
+function matchesTest(context: Context, test: string) {
+  if (test === NODE_TEST) return true;
+  if (context === ROOT) return false;
+  if (test === '*' || test === 'node') return true;
+  const shortName = context.class.slice(context.class.lastIndexOf('.') + 1);
+  return context.class === test || shortName === test;
+}
+
+function attributeValue(context: Context, name: string) {
+  if (context === ROOT) return '';
+  const value = context[ATTRIBUTE_ALIASES[name]];
+  return typeof value === 'string' ? value : String(value);
+}
+
+function toText(value: Value) {
+  if (Array.isArray(value)) {
+    const first = value[0];
+    return first === undefined || first === ROOT ? '' : first.text;
+  }
+  return typeof value === 'string' ? value : String(value);
+}
+
+function toBoolean(expr: Expr, value: Value) {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  // Boolean attributes are strings; treat `[@checked]` as `[@checked='true']`.
+  if (expr.type === 'attr') return value !== '' && value !== 'false';
+  return value.length > 0;
+}
+
+function compare(op: CmpOp, left: Value, right: Value) {
+  if (op === '=' || op === '!=') {
+    const equal =
+      typeof left === 'number' || typeof right === 'number'
+        ? Number(toText(left)) === Number(toText(right))
+        : toText(left) === toText(right);
+    return op === '=' ? equal : !equal;
+  }
+  const a = Number(toText(left));
+  const b = Number(toText(right));
+  if (op === '<') return a < b;
+  if (op === '<=') return a <= b;
+  if (op === '>') return a > b;
+  return a >= b;
+}
+
+function evaluate(
+  tree: Tree,
+  expr: Expr,
+  context: Context,
+  position: number,
+  size: number
+): Value {
+  switch (expr.type) {
+    case 'literal':
+    case 'number':
+      return expr.value;
+    case 'attr':
+      return attributeValue(context, expr.name);
+    case 'path':
+      return evaluatePath(tree, expr, [context]);
+    case 'or':
+      return (
+        toBoolean(expr.left, evaluate(tree, expr.left, context, position, size)) ||
+        toBoolean(expr.right, evaluate(tree, expr.right, context, position, size))
+      );
+    case 'and':
+      return (
+        toBoolean(expr.left, evaluate(tree, expr.left, context, position, size)) &&
+        toBoolean(expr.right, evaluate(tree, expr.right, context, position, size))
+      );
+    case 'cmp':
+      return compare(
+        expr.op,
+        evaluate(tree, expr.left, context, position, size),
+        evaluate(tree, expr.right, context, position, size)
+      );
+    case 'call': {
+      const arg = (index: number) =>
+        evaluate(tree, expr.args[index], context, position, size);
+      switch (expr.name) {
+        case 'text':
+          return context === ROOT ? '' : context.text;
+        case 'contains':
+          return toText(arg(0)).includes(toText(arg(1)));
+        case 'starts-with':
+          return toText(arg(0)).startsWith(toText(arg(1)));
+        case 'ends-with':
+          return toText(arg(0)).endsWith(toText(arg(1)));
+        case 'matches': {
+          const regex =
+            expr.regex ??
+            new RegExp(toText(arg(1)), expr.args[2] ? toText(arg(2)) : '');
+          return regex.test(toText(arg(0)));
+        }
+        case 'not':
+          return !toBoolean(expr.args[0], arg(0));
+        case 'position':
+          return position;
+        case 'last':
+          return size;
+        case 'count': {
+          const value = arg(0);
+          return Array.isArray(value) ? value.length : 0;
+        }
+        case 'normalize-space': {
+          const value = expr.args.length > 0 ? toText(arg(0)) : toText([context]);
+          return value.replace(/\s+/g, ' ').trim();
+        }
+        case 'lower-case':
+          return toText(arg(0)).toLowerCase();
+      }
+      return '';
+    }
+  }
+}
+
+function evaluatePath(tree: Tree, path: PathExpr, contexts: Context[]) {
+  let current: Context[] = path.absolute ? [ROOT] : contexts;
+  for (const step of path.steps) {
+    const next = new Set<Context>();
+    for (const context of current) {
+      let candidates = axisNodes(tree, context, step.axis).filter((node) =>
+        matchesTest(node, step.test)
+      );
+      for (const predicate of step.predicates) {
+        const size = candidates.length;
+        candidates = candidates.filter((node, index) => {
+          const value = evaluate(tree, predicate, node, index + 1, size);
+          return typeof value === 'number'
+            ? value === index + 1
+            : toBoolean(predicate, value);
+        });
+      }
+      for (const candidate of candidates) next.add(candidate);
+    }
+    current = [...next].sort(
+      (a, b) => (tree.order.get(a) ?? 0) - (tree.order.get(b) ?? 0)
+    );
+  }
+  return current;
+}
+
+export function selectElements(
+  elements: UIElement[],
+  selector: string | CompiledSelector
+) {
+  const compiled =
+    typeof selector === 'string' ? parseSelector(selector) : selector;
+  const tree = buildTree(elements);
+  return evaluatePath(tree, compiled.path, [ROOT]).filter(
+    (node): node is UIElement => node !== ROOT
+  );
+}
@@ -7,6 +7,23 @@ import express, { type Request, type Response } from 'express';
 import { MCP_HTTP_PORT, MCP_TRANSPORT } from './config.js';
 import { assertAdbAvailable, resolveAdbSerial } from './adb.js';
 import { registerAndroidTools } from './tools/android.js';
+import { registerAppTools } from './tools/apps.js';
+import { registerEmulatorConsoleTools } from './tools/emulator-console.js';
+import { registerEmulatorTools } from './tools/emulator.js';
+import { registerExpoTools } from './tools/expo.js';
+import { registerFileTools } from './tools/files.js';
+import { registerFlowTools } from './tools/flow.js';
+import { registerGestureTools } from './tools/gestures.js';
+import { registerHealthTools } from './tools/health.js';
+import { registerIntentTools } from './tools/intents.js';
+import { registerLogcatTools } from './tools/logcat.js';
+import { registerPermissionTools } from './tools/permissions.js';
+import { registerPortTools } from './tools/ports.js';
+import { registerRecorderTools } from './tools/recorder.js';
+import { registerScreenRecordTools } from './tools/screenrecord.js';
+import { registerScrollTools } from './tools/scroll.js';
+import { registerSettingsTools } from './tools/settings.js';
+import { registerVisualTools } from './tools/visual.js';
 
 const require = createRequire(import.meta.url);
 const { version: MCP_VERSION } = require('../package.json') as { version: string };
@@ -17,6 +34,23 @@ const server = new McpServer({
 });
 
 registerAndroidTools(server);
+registerExpoTools(server);
+registerIntentTools(server);
+registerPortTools(server);
+registerLogcatTools(server);
+registerHealthTools(server);
+registerScrollTools(server);
+registerGestureTools(server);
+registerRecorderTools(server);
+registerFlowTools(server);
+registerVisualTools(server);
+registerScreenRecordTools(server);
+registerFileTools(server);
+registerAppTools(server);
+registerPermissionTools(server);
+registerSettingsTools(server);
+registerEmulatorTools(server);
+registerEmulatorConsoleTools(server);
 
 async function warmUpAdb() {
   try {
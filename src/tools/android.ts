@@ -1,46 +1,57 @@
-import { randomUUID } from 'node:crypto';
-import { writeFile } from 'node:fs/promises';
-import { tmpdir } from 'node:os';
-import { join } from 'node:path';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import {
-  adbExec,
-  adbExecOut,
   adbListDevices,
   adbShell,
   getAdbSerialState,
   getAdbVersion,
-  resolveAdbSerial,
   setAdbSerialOverride,
 } from '../adb.js';
-import { ADB_PATH, ADB_PATH_SOURCE } from '../config.js';
+import { ADB_PATH, ADB_PATH_SOURCE, ADB_REVERSE_PORTS } from '../config.js';
+import { parsePackageList } from '../package-parser.js';
+import type { Rect } from '../png.js';
+import { findMissingReverse, type PortMapping } from '../ports.js';
+import { shellQuote } from '../shell.js';
 import {
+  buildUITree,
   findElements,
   generateSummary,
-  parseUIElements,
-  type FindCriteria,
+  resolveTapTarget,
+  type TapTargetReason,
   type UIElement,
 } from '../ui-parser.js';
-
-function toText(value: string | Buffer) {
-  return Buffer.isBuffer(value) ? value.toString('utf8') : value;
-}
-
-function toRecord(data: unknown): Record<string, unknown> {
-  if (data === null || data === undefined) return {};
-  if (typeof data === 'object' && !Array.isArray(data)) {
-    return data as Record<string, unknown>;
-  }
-  return { data };
-}
-
-const ok = (text: string, data: unknown) => ({
-  content: [{ type: 'text' as const, text }],
-  structuredContent: toRecord(data),
-});
-
-const list = (text: string, items: unknown) => ok(text, { items });
+import {
+  buildCriteria,
+  criteriaSchema,
+  regionSchema,
+  type SearchCriteria,
+} from './criteria.js';
+import { listAvdNames } from './emulator.js';
+import { withHealthSummary } from './health.js';
+import { withPermissionDialogs } from './permissions.js';
+import { listPortMappings, reversePorts } from './ports.js';
+import {
+  recordable,
+  recordCoordinateLongPress,
+  recordCoordinateTap,
+  replayable,
+} from './recorder.js';
+import {
+  list,
+  normalizeSerial,
+  ok,
+  toRecord,
+  toText,
+  withSerial,
+} from './shared.js';
+import {
+  captureScreenshot,
+  captureScreenshotRegion,
+  fetchUiElements,
+  fetchUiElementsWithRetry,
+  hasValidBounds,
+  isInteractive,
+} from './ui.js';
 
 function escapeInputText(text: string) {
   return text
@@ -50,145 +61,10 @@ function escapeInputText(text: string) {
     .replace(/'/g, "\\'");
 }
 
-type SearchCriteria = FindCriteria;
-const serialSchema = z.object({
-  serial: z.string().optional(),
-});
-
-function withSerial<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
-  return schema.extend(serialSchema.shape);
-}
-
-function normalizeSerial(serial?: string) {
-  if (!serial) return undefined;
-  const trimmed = serial.trim();
-  if (trimmed === '' || trimmed.toLowerCase() === 'auto') return undefined;
-  return trimmed;
-}
-
-async function fetchUiXml({
-  attempts = 2,
-  delayMs = 300,
-  serial,
-}: {
-  attempts?: number;
-  delayMs?: number;
-  serial?: string;
-} = {}) {
-  let lastError: unknown;
-  const resolvedSerial = normalizeSerial(serial);
-  for (let attempt = 0; attempt < attempts; attempt += 1) {
-    try {
-      await adbShell('uiautomator dump /sdcard/ui.xml', {
-        serial: resolvedSerial,
-      });
-      const { stdout } = await adbExecOut(['cat', '/sdcard/ui.xml'], {
-        serial: resolvedSerial,
-      });
-      return toText(stdout);
-    } catch (error) {
-      lastError = error;
-      if (attempt < attempts - 1) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
-    }
-  }
-  throw lastError;
-}
-
-async function fetchUiElements(serial?: string) {
-  const xml = await fetchUiXml({ serial });
-  return parseUIElements(xml);
-}
-
-async function captureScreenshotBuffer(serial?: string) {
-  const resolvedSerial = normalizeSerial(serial);
-  const { stdout } = await adbExecOut(['screencap', '-p'], {
-    serial: resolvedSerial,
-  });
-  return Buffer.isBuffer(stdout) ? stdout : Buffer.from(stdout);
-}
-
-async function saveScreenshotToFile(buffer: Buffer, filePath?: string) {
-  const targetPath =
-    filePath ??
-    join(tmpdir(), `expo-android-${Date.now()}-${randomUUID()}.png`);
-  await writeFile(targetPath, buffer);
-  return targetPath;
-}
-
-async function captureScreenshot({
-  mode,
-  path,
-  serial,
-}: {
-  mode: 'base64' | 'path';
-  path?: string;
-  serial?: string;
-}) {
-  const buffer = await captureScreenshotBuffer(serial);
-  if (mode === 'path') {
-    const savedPath = await saveScreenshotToFile(buffer, path);
-    return { mode, path: savedPath, base64: null, mimeType: 'image/png' };
-  }
-  return {
-    mode,
-    path: null,
-    base64: buffer.toString('base64'),
-    mimeType: 'image/png',
-  };
-}
-
-function isInteractive(element: UIElement) {
-  return element.clickable || element.checkable || element.scrollable;
-}
-
-function hasValidBounds(element: UIElement) {
-  const { x1, y1, x2, y2 } = element.bounds;
-  return x2 > x1 && y2 > y1;
-}
-
-function isOnlyProgress(elements: UIElement[]) {
-  if (elements.length === 0) return true;
-  return elements.every((element) =>
-    element.class.toLowerCase().includes('progressbar')
-  );
-}
-
-async function fetchUiElementsWithRetry({
-  onlyInteractive,
-  attempts = 3,
-  delayMs = 400,
-  serial,
-}: {
-  onlyInteractive?: boolean;
-  attempts?: number;
-  delayMs?: number;
-  serial?: string;
-}) {
-  let lastElements: UIElement[] = [];
-  for (let attempt = 0; attempt < attempts; attempt += 1) {
-    const elements = await fetchUiElements(serial);
-    lastElements = elements;
-    const interactiveCount = elements.filter(isInteractive).length;
-    const shouldRetry =
-      elements.length === 0 ||
-      isOnlyProgress(elements) ||
-      (onlyInteractive === true && interactiveCount === 0);
-
-    if (!shouldRetry) {
-      return elements;
-    }
-
-    if (attempt < attempts - 1) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
-  }
-  return lastElements;
-}
-
-function buildCriteria(criteria: SearchCriteria) {
-  return criteria;
+function describeTapReason(reason: TapTargetReason) {
+  return reason === 'long-clickable-ancestor'
+    ? 'long-clickable ancestor'
+    : 'clickable ancestor';
 }
 
 export function registerAndroidTools(server: McpServer) {
@@ -233,6 +109,24 @@ export function registerAndroidTools(server: McpServer) {
       }
 
       const serialState = await getAdbSerialState({ strict: false });
+      let reverseMappings: PortMapping[] = [];
+      let reverseMappingsError: string | null = null;
+      let missingReversePorts: number[] = [];
+      if (serialState.serial) {
+        try {
+          reverseMappings = await listPortMappings(serialState.serial, [
+            'reverse',
+          ]);
+          missingReversePorts = findMissingReverse(
+            reverseMappings,
+            ADB_REVERSE_PORTS
+          );
+        } catch (error) {
+          reverseMappingsError =
+            error instanceof Error ? error.message : String(error);
+        }
+      }
+
       let suggestedFix: string | null = null;
       if (serialState.error) {
         const availableSerials = devices
@@ -245,9 +139,18 @@ export function registerAndroidTools(server: McpServer) {
             ', '
           )} or set ADB_SERIAL accordingly.`;
         } else {
-          suggestedFix =
-            'Start an emulator or connect a device, then run doctor again.';
+          const avds = await listAvdNames().catch(() => []);
+          suggestedFix = avds.length
+            ? `Run startEmulator with one of: ${avds.join(
+                ', '
+              )}, or connect a device, then run doctor again.`
+            : 'Start an emulator or connect a device, then run doctor again.';
         }
+      } else if (missingReversePorts.length > 0) {
+        const ports = missingReversePorts.map((port) => `tcp:${port}`);
+        suggestedFix = `Run reversePort for ${ports.join(
+          ', '
+        )} (or setDevice with reversePorts: true) so the app can reach Metro.`;
       }
 
       return ok('Doctor check complete.', {
@@ -263,6 +166,9 @@ export function registerAndroidTools(server: McpServer) {
         selectedSerialSource: serialState.source,
         selectedSerialWarning: serialState.warning,
         selectedSerialError: serialState.error,
+        reverseMappings,
+        reverseMappingsError,
+        missingReversePorts,
         suggestedFix,
       });
     }
@@ -273,14 +179,25 @@ export function registerAndroidTools(server: McpServer) {
     {
       title: 'Set device',
       description:
-        'Override the active device serial for this MCP process. Use "auto" to clear override.',
+        'Override the active device serial for this MCP process. Use "auto" to clear override. Set reversePorts to adb reverse the Metro ports.',
       inputSchema: z.object({
         serial: z.string().optional(),
+        reversePorts: z.boolean().optional(),
       }),
     },
-    async ({ serial }: { serial?: string }) => {
+    async ({
+      serial,
+      reversePorts: shouldReversePorts,
+    }: {
+      serial?: string;
+      reversePorts?: boolean;
+    }) => {
       setAdbSerialOverride(serial ?? 'auto');
       const serialState = await getAdbSerialState({ strict: false });
+      const reversedPorts =
+        shouldReversePorts && serialState.serial
+          ? await reversePorts(ADB_REVERSE_PORTS, serialState.serial)
+          : [];
       return ok('Device selection updated.', {
         requestedSerial: serialState.requestedSerial,
         requestedSerialSource: serialState.requestedSerialSource,
@@ -288,6 +205,7 @@ export function registerAndroidTools(server: McpServer) {
         selectedSerialSource: serialState.source,
         selectedSerialWarning: serialState.warning,
         selectedSerialError: serialState.error,
+        reversedPorts,
       });
     }
   );
@@ -306,6 +224,8 @@ export function registerAndroidTools(server: McpServer) {
         screenshotMode: z.enum(['base64', 'path']).optional(),
         screenshotPath: z.string().optional(),
         maxElements: z.number().int().positive().optional(),
+        outputMode: z.enum(['flat', 'tree']).optional(),
+        maxDepth: z.number().int().nonnegative().optional(),
         })
       ),
     },
@@ -316,6 +236,8 @@ export function registerAndroidTools(server: McpServer) {
       screenshotMode,
       screenshotPath,
       maxElements,
+      outputMode,
+      maxDepth,
       serial,
     }: {
       onlyInteractive?: boolean;
@@ -324,6 +246,8 @@ export function registerAndroidTools(server: McpServer) {
       screenshotMode?: 'base64' | 'path';
       screenshotPath?: string;
       maxElements?: number;
+      outputMode?: 'flat' | 'tree';
+      maxDepth?: number;
       serial?: string;
     }) => {
       const shouldIncludeScreenshot = includeScreenshot ?? false;
@@ -341,6 +265,14 @@ export function registerAndroidTools(server: McpServer) {
       const summary = generateSummary(filtered);
       const limited =
         maxElements && maxElements > 0 ? filtered.slice(0, maxElements) : filtered;
+      const resolvedOutputMode = outputMode ?? 'flat';
+      const tree =
+        resolvedOutputMode === 'tree' && shouldIncludeElements
+          ? buildUITree(elements, {
+              keep: onlyInteractive ? isInteractive : undefined,
+              maxDepth,
+            })
+          : null;
       let screenshotBase64: string | null = null;
       let screenshotFilePath: string | null = null;
       const content: Array<
@@ -376,67 +308,185 @@ export function registerAndroidTools(server: McpServer) {
           screenshot: screenshotBase64,
           screenshotPath: screenshotFilePath,
           screenshotMode: shouldIncludeScreenshot ? mode : null,
-          elements: shouldIncludeElements ? limited : [],
+          elements:
+            shouldIncludeElements && resolvedOutputMode === 'flat' ? limited : [],
+          tree,
+          outputMode: resolvedOutputMode,
           elementsTotal: filtered.length,
-          elementsReturned: shouldIncludeElements ? limited.length : 0,
+          elementsReturned:
+            shouldIncludeElements && resolvedOutputMode === 'flat'
+              ? limited.length
+              : 0,
           summary,
         }),
       };
     }
   );
 
+  const screenshotSchema = withSerial(
+    z.object({
+      mode: z.enum(['base64', 'path']).optional(),
+      path: z.string().optional(),
+    })
+  );
   server.registerTool(
     'screenshot',
     {
       title: 'Screenshot',
       description: 'Capture a screenshot without UI element parsing.',
+      inputSchema: screenshotSchema,
+    },
+    replayable(
+      'screenshot',
+      screenshotSchema,
+      async ({
+        mode,
+        path,
+        serial,
+      }: {
+        mode?: 'base64' | 'path';
+        path?: string;
+        serial?: string;
+      }) => {
+        const resolvedMode = mode ?? 'base64';
+        const screenshot = await captureScreenshot({
+          mode: resolvedMode,
+          path,
+          serial,
+        });
+
+        const content: Array<
+          | { type: 'text'; text: string }
+          | { type: 'image'; data: string; mimeType: string }
+        > = [{ type: 'text', text: 'Screenshot captured.' }];
+
+        if (screenshot.base64) {
+          content.push({
+            type: 'image',
+            data: screenshot.base64,
+            mimeType: screenshot.mimeType,
+          });
+        } else if (screenshot.path) {
+          content.push({
+            type: 'text',
+            text: `Screenshot saved to ${screenshot.path}.`,
+          });
+        }
+
+        return {
+          content,
+          structuredContent: toRecord({
+            screenshot: screenshot.base64,
+            screenshotPath: screenshot.path,
+            screenshotMode: resolvedMode,
+          }),
+        };
+      }
+    )
+  );
+
+  server.registerTool(
+    'screenshotElement',
+    {
+      title: 'Screenshot element',
+      description:
+        'Capture only part of the screen: the element matched by the criteria (optionally padded) or a raw rect in screen pixels.',
       inputSchema: withSerial(
-        z.object({
-        mode: z.enum(['base64', 'path']).optional(),
-        path: z.string().optional(),
+        criteriaSchema.extend({
+          rect: regionSchema.optional(),
+          index: z.number().int().nonnegative().optional(),
+          padding: z.number().nonnegative().optional(),
+          mode: z.enum(['base64', 'path']).optional(),
+          path: z.string().optional(),
         })
       ),
     },
     async ({
+      rect,
+      index,
+      padding = 0,
       mode,
       path,
       serial,
-    }: {
+      ...criteria
+    }: SearchCriteria & {
+      rect?: Rect;
+      index?: number;
+      padding?: number;
       mode?: 'base64' | 'path';
       path?: string;
       serial?: string;
     }) => {
+      const hasCriteria = Object.values(criteria).some(
+        (value) => value !== undefined
+      );
+      if (rect && hasCriteria) {
+        throw new Error('Pass either rect or element criteria, not both.');
+      }
+      if (!rect && !hasCriteria) {
+        throw new Error('Pass element criteria or a rect to capture.');
+      }
+
+      let element: UIElement | null = null;
+      let region: Rect;
+      if (rect) {
+        region = rect;
+      } else {
+        const elements = await fetchUiElements(serial);
+        const matches = findElements(elements, buildCriteria(criteria)).filter(
+          hasValidBounds
+        );
+        element = matches[index ?? 0] ?? null;
+        if (!element) {
+          throw new Error(
+            matches.length === 0
+              ? 'No element with valid bounds matched the criteria.'
+              : `Only ${matches.length} element(s) matched; index ${index} is out of range.`
+          );
+        }
+        const { x1, y1, x2, y2 } = element.bounds;
+        region = {
+          x: x1 - padding,
+          y: y1 - padding,
+          width: x2 - x1 + padding * 2,
+          height: y2 - y1 + padding * 2,
+        };
+      }
+
       const resolvedMode = mode ?? 'base64';
-      const screenshot = await captureScreenshot({
+      const screenshot = await captureScreenshotRegion({
         mode: resolvedMode,
         path,
         serial,
+        region,
       });
-
+      const { width, height } = screenshot.region;
       const content: Array<
         | { type: 'text'; text: string }
         | { type: 'image'; data: string; mimeType: string }
-      > = [{ type: 'text', text: 'Screenshot captured.' }];
-
+      > = [
+        {
+          type: 'text',
+          text: screenshot.path
+            ? `Saved ${width}x${height} crop to ${screenshot.path}.`
+            : `Captured ${width}x${height} crop.`,
+        },
+      ];
       if (screenshot.base64) {
         content.push({
           type: 'image',
           data: screenshot.base64,
           mimeType: screenshot.mimeType,
         });
-      } else if (screenshot.path) {
-        content.push({
-          type: 'text',
-          text: `Screenshot saved to ${screenshot.path}.`,
-        });
       }
-
       return {
         content,
         structuredContent: toRecord({
           screenshot: screenshot.base64,
           screenshotPath: screenshot.path,
           screenshotMode: resolvedMode,
+          region: screenshot.region,
+          element,
         }),
       };
     }
@@ -447,21 +497,7 @@ export function registerAndroidTools(server: McpServer) {
     {
       title: 'Find element',
       description: 'Find UI elements by criteria.',
-      inputSchema: withSerial(
-        z.object({
-        text: z.string().optional(),
-        textContains: z.string().optional(),
-        class: z.string().optional(),
-        resourceId: z.string().optional(),
-        resourceIdContains: z.string().optional(),
-        contentDesc: z.string().optional(),
-        contentDescContains: z.string().optional(),
-        checkable: z.boolean().optional(),
-        clickable: z.boolean().optional(),
-        normalizeWhitespace: z.boolean().optional(),
-        caseInsensitive: z.boolean().optional(),
-        })
-      ),
+      inputSchema: withSerial(criteriaSchema),
     },
     async (criteria: SearchCriteria & { serial?: string }) => {
       const elements = await fetchUiElements(criteria.serial);
@@ -474,535 +510,523 @@ export function registerAndroidTools(server: McpServer) {
     }
   );
 
+  const tapElementSchema = withSerial(
+    criteriaSchema.extend({
+      index: z.number().optional(),
+      preferClickable: z.boolean().optional(),
+      tapClickableAncestor: z.boolean().optional(),
+    })
+  );
   server.registerTool(
     'tapElement',
     {
       title: 'Tap element',
       description: 'Find an element and tap its center coordinate.',
-      inputSchema: withSerial(
-        z.object({
-        text: z.string().optional(),
-        textContains: z.string().optional(),
-        class: z.string().optional(),
-        resourceId: z.string().optional(),
-        resourceIdContains: z.string().optional(),
-        contentDesc: z.string().optional(),
-        contentDescContains: z.string().optional(),
-        index: z.number().optional(),
-        preferClickable: z.boolean().optional(),
-        normalizeWhitespace: z.boolean().optional(),
-        caseInsensitive: z.boolean().optional(),
-        })
-      ),
+      inputSchema: tapElementSchema,
     },
-    async ({
-      text,
-      textContains,
-      class: className,
-      resourceId,
-      resourceIdContains,
-      contentDesc,
-      contentDescContains,
-      index,
-      preferClickable,
-      normalizeWhitespace,
-      caseInsensitive,
-      serial,
-    }: {
-      text?: string;
-      textContains?: string;
-      class?: string;
-      resourceId?: string;
-      resourceIdContains?: string;
-      contentDesc?: string;
-      contentDescContains?: string;
-      index?: number;
-      preferClickable?: boolean;
-      normalizeWhitespace?: boolean;
-      caseInsensitive?: boolean;
-      serial?: string;
-    }) => {
-      const elements = await fetchUiElements(serial);
-      const matches = findElements(elements, {
-        text,
-        textContains,
-        class: className,
-        resourceId,
-        resourceIdContains,
-        contentDesc,
-        contentDescContains,
-        normalizeWhitespace,
-        caseInsensitive,
-      });
-      if (matches.length === 0) {
-        return ok('No matching elements found.', {
-          tapped: false,
-          element: null,
-          message: 'No matching elements found.',
-        });
-      }
+    recordable(
+      'tapElement',
+      tapElementSchema,
+      withPermissionDialogs(async ({
+        index,
+        preferClickable,
+        tapClickableAncestor,
+        serial,
+        ...criteria
+      }: SearchCriteria & {
+        index?: number;
+        preferClickable?: boolean;
+        tapClickableAncestor?: boolean;
+        serial?: string;
+      }) => {
+        const elements = await fetchUiElements(serial);
+        const matches = findElements(elements, buildCriteria(criteria));
+        if (matches.length === 0) {
+          return ok('No matching elements found.', {
+            tapped: false,
+            element: null,
+            message: 'No matching elements found.',
+          });
+        }
 
-      const shouldPreferClickable = preferClickable ?? true;
-      const orderedMatches =
-        shouldPreferClickable && matches.some((element) => element.clickable)
-          ? matches.filter((element) => element.clickable)
-          : matches;
-      const elementIndex = index ?? 0;
-      const element = orderedMatches[elementIndex];
-      if (!element) {
-        return ok('Element index out of range.', {
-          tapped: false,
-          element: null,
-          message: 'Element index out of range.',
-        });
-      }
+        const shouldPreferClickable = preferClickable ?? true;
+        const orderedMatches =
+          shouldPreferClickable && matches.some((element) => element.clickable)
+            ? matches.filter((element) => element.clickable)
+            : matches;
+        const elementIndex = index ?? 0;
+        const element = orderedMatches[elementIndex];
+        if (!element) {
+          return ok('Element index out of range.', {
+            tapped: false,
+            element: null,
+            message: 'Element index out of range.',
+          });
+        }
 
-      if (!hasValidBounds(element)) {
-        return ok('Element bounds invalid; tap aborted.', {
-          tapped: false,
-          element,
-          message: 'Element bounds invalid; tap aborted.',
-        });
-      }
+        const resolved =
+          tapClickableAncestor ?? true
+            ? resolveTapTarget(elements, element)
+            : { target: element, reason: 'self' as const };
+        const target = hasValidBounds(resolved.target) ? resolved.target : element;
+        const tapReason = target === resolved.target ? resolved.reason : 'self';
 
-      await adbShell(`input tap ${element.center.x} ${element.center.y}`, {
-        serial: normalizeSerial(serial),
-      });
-      return ok('Element tapped.', {
-        tapped: true,
-        element,
-        message: 'Element tapped.',
-      });
-    }
+        if (!hasValidBounds(target)) {
+          return ok('Element bounds invalid; tap aborted.', {
+            tapped: false,
+            element,
+            target: null,
+            tapReason: null,
+            message: 'Element bounds invalid; tap aborted.',
+          });
+        }
+
+        await adbShell(`input tap ${target.center.x} ${target.center.y}`, {
+          serial: normalizeSerial(serial),
+        });
+        const message =
+          target === element
+            ? 'Element tapped.'
+            : `Tapped ${describeTapReason(tapReason)} ${target.path}.`;
+        return withHealthSummary(
+          ok(message, {
+            tapped: true,
+            element,
+            target,
+            tapReason,
+            message,
+          }),
+          normalizeSerial(serial)
+        );
+      })
+    )
   );
 
+  const waitForElementSchema = withSerial(
+    criteriaSchema.extend({
+      timeout: z.number().optional(),
+      interval: z.number().optional(),
+      shouldBeChecked: z.boolean().optional(),
+      shouldBeEnabled: z.boolean().optional(),
+      shouldBeClickable: z.boolean().optional(),
+    })
+  );
   server.registerTool(
     'waitForElement',
     {
       title: 'Wait for element',
       description: 'Wait until an element appears or timeout is reached.',
-      inputSchema: withSerial(
-        z.object({
-        text: z.string().optional(),
-        textContains: z.string().optional(),
-        class: z.string().optional(),
-        resourceId: z.string().optional(),
-        resourceIdContains: z.string().optional(),
-        contentDesc: z.string().optional(),
-        contentDescContains: z.string().optional(),
-        timeout: z.number().optional(),
-        interval: z.number().optional(),
-        shouldBeChecked: z.boolean().optional(),
-        shouldBeEnabled: z.boolean().optional(),
-        shouldBeClickable: z.boolean().optional(),
-        normalizeWhitespace: z.boolean().optional(),
-        caseInsensitive: z.boolean().optional(),
-        })
-      ),
+      inputSchema: waitForElementSchema,
     },
-    async ({
-      text,
-      textContains,
-      class: className,
-      resourceId,
-      resourceIdContains,
-      contentDesc,
-      contentDescContains,
-      timeout,
-      interval,
-      shouldBeChecked,
-      shouldBeEnabled,
-      shouldBeClickable,
-      normalizeWhitespace,
-      caseInsensitive,
-      serial,
-    }: {
-      text?: string;
-      textContains?: string;
-      class?: string;
-      resourceId?: string;
-      resourceIdContains?: string;
-      contentDesc?: string;
-      contentDescContains?: string;
-      timeout?: number;
-      interval?: number;
-      shouldBeChecked?: boolean;
-      shouldBeEnabled?: boolean;
-      shouldBeClickable?: boolean;
-      normalizeWhitespace?: boolean;
-      caseInsensitive?: boolean;
-      serial?: string;
-    }) => {
-      const timeoutMs = Math.max(0, timeout ?? 10000);
-      const intervalMs = Math.max(50, interval ?? 500);
-      const start = Date.now();
-
-      const stateMatches = (element: UIElement) => {
-        if (
-          shouldBeChecked !== undefined &&
-          element.checked !== shouldBeChecked
-        ) {
-          return false;
-        }
-        if (
-          shouldBeEnabled !== undefined &&
-          element.enabled !== shouldBeEnabled
-        ) {
-          return false;
-        }
-        if (
-          shouldBeClickable !== undefined &&
-          element.clickable !== shouldBeClickable
-        ) {
-          return false;
-        }
-        return true;
-      };
+    recordable(
+      'waitForElement',
+      waitForElementSchema,
+      async ({
+        timeout,
+        interval,
+        shouldBeChecked,
+        shouldBeEnabled,
+        shouldBeClickable,
+        serial,
+        ...criteria
+      }: SearchCriteria & {
+        timeout?: number;
+        interval?: number;
+        shouldBeChecked?: boolean;
+        shouldBeEnabled?: boolean;
+        shouldBeClickable?: boolean;
+        serial?: string;
+      }) => {
+        const timeoutMs = Math.max(0, timeout ?? 10000);
+        const intervalMs = Math.max(50, interval ?? 500);
+        const start = Date.now();
 
-      while (Date.now() - start <= timeoutMs) {
-        const elements = await fetchUiElements(serial);
-        const matches = findElements(elements, {
-          text,
-          textContains,
-          class: className,
-          resourceId,
-          resourceIdContains,
-          contentDesc,
-          contentDescContains,
-          normalizeWhitespace,
-          caseInsensitive,
-        });
-        const matched = matches.find(stateMatches);
-        if (matched) {
-          const elapsed = Date.now() - start;
-          return ok(`Element found after ${elapsed}ms.`, {
-            found: true,
-            element: matched,
-            elapsed,
-          });
+        const stateMatches = (element: UIElement) => {
+          if (
+            shouldBeChecked !== undefined &&
+            element.checked !== shouldBeChecked
+          ) {
+            return false;
+          }
+          if (
+            shouldBeEnabled !== undefined &&
+            element.enabled !== shouldBeEnabled
+          ) {
+            return false;
+          }
+          if (
+            shouldBeClickable !== undefined &&
+            element.clickable !== shouldBeClickable
+          ) {
+            return false;
+          }
+          return true;
+        };
+
+        while (Date.now() - start <= timeoutMs) {
+          const elements = await fetchUiElements(serial);
+          const matches = findElements(elements, buildCriteria(criteria));
+          const matched = matches.find(stateMatches);
+          if (matched) {
+            const elapsed = Date.now() - start;
+            return ok(`Element found after ${elapsed}ms.`, {
+              found: true,
+              element: matched,
+              elapsed,
+            });
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, intervalMs));
         }
 
-        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+        const elapsed = Date.now() - start;
+        return ok(`Element not found after ${elapsed}ms.`, {
+          found: false,
+          element: null,
+          elapsed,
+        });
       }
-
-      const elapsed = Date.now() - start;
-      return ok(`Element not found after ${elapsed}ms.`, {
-        found: false,
-        element: null,
-        elapsed,
-      });
-    }
+    )
   );
 
+  const assertElementSchema = withSerial(
+    criteriaSchema.extend({
+      shouldExist: z.boolean().optional(),
+      shouldBeChecked: z.boolean().optional(),
+      shouldBeEnabled: z.boolean().optional(),
+      shouldBeClickable: z.boolean().optional(),
+    })
+  );
   server.registerTool(
     'assertElement',
     {
       title: 'Assert element',
       description: 'Assert element presence and state.',
-      inputSchema: withSerial(
-        z.object({
-        text: z.string().optional(),
-        textContains: z.string().optional(),
-        class: z.string().optional(),
-        resourceId: z.string().optional(),
-        resourceIdContains: z.string().optional(),
-        contentDesc: z.string().optional(),
-        contentDescContains: z.string().optional(),
-        shouldExist: z.boolean().optional(),
-        shouldBeChecked: z.boolean().optional(),
-        shouldBeEnabled: z.boolean().optional(),
-        shouldBeClickable: z.boolean().optional(),
-        normalizeWhitespace: z.boolean().optional(),
-        caseInsensitive: z.boolean().optional(),
-        })
-      ),
+      inputSchema: assertElementSchema,
     },
-    async ({
-      text,
-      textContains,
-      class: className,
-      resourceId,
-      resourceIdContains,
-      contentDesc,
-      contentDescContains,
-      shouldExist,
-      shouldBeChecked,
-      shouldBeEnabled,
-      shouldBeClickable,
-      normalizeWhitespace,
-      caseInsensitive,
-      serial,
-    }: {
-      text?: string;
-      textContains?: string;
-      class?: string;
-      resourceId?: string;
-      resourceIdContains?: string;
-      contentDesc?: string;
-      contentDescContains?: string;
-      shouldExist?: boolean;
-      shouldBeChecked?: boolean;
-      shouldBeEnabled?: boolean;
-      shouldBeClickable?: boolean;
-      normalizeWhitespace?: boolean;
-      caseInsensitive?: boolean;
-      serial?: string;
-    }) => {
-      const elements = await fetchUiElements(serial);
-      const matches = findElements(elements, {
-        text,
-        textContains,
-        class: className,
-        resourceId,
-        resourceIdContains,
-        contentDesc,
-        contentDescContains,
-        normalizeWhitespace,
-        caseInsensitive,
-      });
-      const expectExist = shouldExist ?? true;
+    replayable(
+      'assertElement',
+      assertElementSchema,
+      async ({
+        shouldExist,
+        shouldBeChecked,
+        shouldBeEnabled,
+        shouldBeClickable,
+        serial,
+        ...criteria
+      }: SearchCriteria & {
+        shouldExist?: boolean;
+        shouldBeChecked?: boolean;
+        shouldBeEnabled?: boolean;
+        shouldBeClickable?: boolean;
+        serial?: string;
+      }) => {
+        const elements = await fetchUiElements(serial);
+        const matches = findElements(elements, buildCriteria(criteria));
+        const expectExist = shouldExist ?? true;
+
+        if (!expectExist) {
+          if (matches.length === 0) {
+            return ok('Element not found as expected.', {
+              passed: true,
+              message: 'Element not found as expected.',
+              actual: null,
+            });
+          }
+          return ok('Element found but should not exist.', {
+            passed: false,
+            message: 'Element found but should not exist.',
+            actual: matches[0],
+          });
+        }
 
-      if (!expectExist) {
         if (matches.length === 0) {
-          return ok('Element not found as expected.', {
-            passed: true,
-            message: 'Element not found as expected.',
+          return ok('Element not found.', {
+            passed: false,
+            message: 'Element not found.',
             actual: null,
           });
         }
-        return ok('Element found but should not exist.', {
-          passed: false,
-          message: 'Element found but should not exist.',
-          actual: matches[0],
-        });
-      }
 
-      if (matches.length === 0) {
-        return ok('Element not found.', {
-          passed: false,
-          message: 'Element not found.',
-          actual: null,
-        });
-      }
+        const stateMatches = (element: UIElement) => {
+          if (
+            shouldBeChecked !== undefined &&
+            element.checked !== shouldBeChecked
+          ) {
+            return false;
+          }
+          if (
+            shouldBeEnabled !== undefined &&
+            element.enabled !== shouldBeEnabled
+          ) {
+            return false;
+          }
+          if (
+            shouldBeClickable !== undefined &&
+            element.clickable !== shouldBeClickable
+          ) {
+            return false;
+          }
+          return true;
+        };
 
-      const stateMatches = (element: UIElement) => {
-        if (
-          shouldBeChecked !== undefined &&
-          element.checked !== shouldBeChecked
-        ) {
-          return false;
-        }
-        if (
-          shouldBeEnabled !== undefined &&
-          element.enabled !== shouldBeEnabled
-        ) {
-          return false;
-        }
-        if (
-          shouldBeClickable !== undefined &&
-          element.clickable !== shouldBeClickable
-        ) {
-          return false;
+        const matched = matches.find(stateMatches);
+        if (!matched) {
+          return ok('Element found but state does not match.', {
+            passed: false,
+            message: 'Element found but state does not match.',
+            actual: matches[0],
+          });
         }
-        return true;
-      };
 
-      const matched = matches.find(stateMatches);
-      if (!matched) {
-        return ok('Element found but state does not match.', {
-          passed: false,
-          message: 'Element found but state does not match.',
-          actual: matches[0],
+        return ok('Element assertion passed.', {
+          passed: true,
+          message: 'Element assertion passed.',
+          actual: matched,
         });
       }
-
-      return ok('Element assertion passed.', {
-        passed: true,
-        message: 'Element assertion passed.',
-        actual: matched,
-      });
-    }
+    )
   );
 
+  const tapSchema = withSerial(
+    z.object({
+      x: z.number(),
+      y: z.number(),
+    })
+  );
   server.registerTool(
     'tap',
     {
       title: 'Tap',
       description: 'Tap on screen at coordinates.',
-      inputSchema: withSerial(
-        z.object({
-        x: z.number(),
-        y: z.number(),
-        })
-      ),
+      inputSchema: tapSchema,
     },
-    async ({ x, y, serial }: { x: number; y: number; serial?: string }) => {
-      await adbShell(`input tap ${x} ${y}`, {
-        serial: normalizeSerial(serial),
-      });
-      return ok(`Tapped at (${x}, ${y}).`, { x, y });
-    }
+    recordable(
+      'tap',
+      tapSchema,
+      async ({ x, y, serial }: { x: number; y: number; serial?: string }) => {
+        await adbShell(`input tap ${x} ${y}`, {
+          serial: normalizeSerial(serial),
+        });
+        return ok(`Tapped at (${x}, ${y}).`, { x, y });
+      },
+      recordCoordinateTap
+    )
   );
 
+  const swipeSchema = withSerial(
+    z.object({
+      x1: z.number(),
+      y1: z.number(),
+      x2: z.number(),
+      y2: z.number(),
+      duration: z.number().optional(),
+    })
+  );
   server.registerTool(
     'swipe',
     {
       title: 'Swipe',
       description: 'Swipe on screen from one coordinate to another.',
-      inputSchema: withSerial(
-        z.object({
-        x1: z.number(),
-        y1: z.number(),
-        x2: z.number(),
-        y2: z.number(),
-        duration: z.number().optional(),
-        })
-      ),
+      inputSchema: swipeSchema,
     },
-    async ({
-      x1,
-      y1,
-      x2,
-      y2,
-      duration,
-      serial,
-    }: {
-      x1: number;
-      y1: number;
-      x2: number;
-      y2: number;
-      duration?: number;
-      serial?: string;
-    }) => {
-      const swipeDuration = duration ?? 300;
-      await adbShell(
-        `input swipe ${x1} ${y1} ${x2} ${y2} ${swipeDuration}`,
-        { serial: normalizeSerial(serial) }
-      );
-      return ok('Swipe executed.', { x1, y1, x2, y2, duration: swipeDuration });
-    }
+    recordable(
+      'swipe',
+      swipeSchema,
+      async ({
+        x1,
+        y1,
+        x2,
+        y2,
+        duration,
+        serial,
+      }: {
+        x1: number;
+        y1: number;
+        x2: number;
+        y2: number;
+        duration?: number;
+        serial?: string;
+      }) => {
+        const swipeDuration = duration ?? 300;
+        await adbShell(
+          `input swipe ${x1} ${y1} ${x2} ${y2} ${swipeDuration}`,
+          { serial: normalizeSerial(serial) }
+        );
+        return withHealthSummary(
+          ok('Swipe executed.', { x1, y1, x2, y2, duration: swipeDuration }),
+          normalizeSerial(serial)
+        );
+      }
+    )
   );
 
+  const longPressSchema = withSerial(
+    z.object({
+      x: z.number(),
+      y: z.number(),
+      duration: z.number().optional(),
+    })
+  );
   server.registerTool(
     'longPress',
     {
       title: 'Long press',
       description: 'Press and hold on screen at coordinates.',
-      inputSchema: withSerial(
-        z.object({
-        x: z.number(),
-        y: z.number(),
-        duration: z.number().optional(),
-        })
-      ),
+      inputSchema: longPressSchema,
     },
-    async ({
-      x,
-      y,
-      duration,
-      serial,
-    }: {
-      x: number;
-      y: number;
-      duration?: number;
-      serial?: string;
-    }) => {
-      const pressDuration = duration ?? 1000;
-      await adbShell(`input swipe ${x} ${y} ${x} ${y} ${pressDuration}`, {
-        serial: normalizeSerial(serial),
-      });
-      return ok('Long press executed.', { x, y, duration: pressDuration });
-    }
+    recordable(
+      'longPress',
+      longPressSchema,
+      async ({
+        x,
+        y,
+        duration,
+        serial,
+      }: {
+        x: number;
+        y: number;
+        duration?: number;
+        serial?: string;
+      }) => {
+        const pressDuration = duration ?? 1000;
+        await adbShell(`input swipe ${x} ${y} ${x} ${y} ${pressDuration}`, {
+          serial: normalizeSerial(serial),
+        });
+        return ok('Long press executed.', { x, y, duration: pressDuration });
+      },
+      recordCoordinateLongPress
+    )
   );
 
+  const inputTextSchema = withSerial(
+    z.object({
+      text: z.string(),
+    })
+  );
   server.registerTool(
     'inputText',
     {
       title: 'Input text',
       description: 'Type text into the focused input field.',
-      inputSchema: withSerial(
-        z.object({
-        text: z.string(),
-        })
-      ),
+      inputSchema: inputTextSchema,
     },
-    async ({ text, serial }: { text: string; serial?: string }) => {
-      const escaped = escapeInputText(text);
-      await adbShell(`input text ${escaped}`, {
-        serial: normalizeSerial(serial),
-      });
-      return ok('Text input sent.', { text });
-    }
+    recordable(
+      'inputText',
+      inputTextSchema,
+      withPermissionDialogs(
+        async ({ text, serial }: { text: string; serial?: string }) => {
+          const escaped = escapeInputText(text);
+          await adbShell(`input text ${escaped}`, {
+            serial: normalizeSerial(serial),
+          });
+          return withHealthSummary(
+            ok('Text input sent.', { text }),
+            normalizeSerial(serial)
+          );
+        }
+      )
+    )
   );
 
+  const keyEventSchema = withSerial(
+    z.object({
+      keyCode: z.string(),
+    })
+  );
   server.registerTool(
     'keyEvent',
     {
       title: 'Key event',
       description: 'Send an Android key event to the device.',
-      inputSchema: withSerial(
-        z.object({
-        keyCode: z.string(),
-        })
-      ),
+      inputSchema: keyEventSchema,
     },
-    async ({ keyCode, serial }: { keyCode: string; serial?: string }) => {
-      await adbShell(`input keyevent ${keyCode}`, {
-        serial: normalizeSerial(serial),
-      });
-      return ok(`Key event ${keyCode} sent.`, { keyCode });
-    }
+    recordable(
+      'keyEvent',
+      keyEventSchema,
+      async ({ keyCode, serial }: { keyCode: string; serial?: string }) => {
+        await adbShell(`input keyevent ${keyCode}`, {
+          serial: normalizeSerial(serial),
+        });
+        return ok(`Key event ${keyCode} sent.`, { keyCode });
+      }
+    )
   );
 
+  const openAppSchema = withSerial(
+    z.object({
+      packageName: z.string(),
+    })
+  );
   server.registerTool(
     'openApp',
     {
       title: 'Open app',
       description: 'Launch an Android app by package name.',
-      inputSchema: withSerial(
-        z.object({
-        packageName: z.string(),
-        })
-      ),
+      inputSchema: openAppSchema,
     },
-    async ({
-      packageName,
-      serial,
-    }: {
-      packageName: string;
-      serial?: string;
-    }) => {
-      await adbShell(
-        `monkey -p ${packageName} -c android.intent.category.LAUNCHER 1`,
-        { serial: normalizeSerial(serial) }
-      );
-      return ok(`App ${packageName} launched.`, { packageName });
-    }
+    recordable(
+      'openApp',
+      openAppSchema,
+      async ({
+        packageName,
+        serial,
+      }: {
+        packageName: string;
+        serial?: string;
+      }) => {
+        await adbShell(
+          `monkey -p ${shellQuote(packageName)} -c android.intent.category.LAUNCHER 1`,
+          { serial: normalizeSerial(serial) }
+        );
+        return ok(`App ${packageName} launched.`, { packageName });
+      }
+    )
   );
 
   server.registerTool(
     'listPackages',
     {
       title: 'List packages',
-      description: 'List installed package names.',
+      description:
+        'List installed package names, optionally only third-party or system packages, only disabled ones, or with version codes.',
       inputSchema: withSerial(
         z.object({
         filter: z.string().optional(),
+        type: z.enum(['all', 'thirdParty', 'system']).optional(),
+        disabled: z.boolean().optional(),
+        includeVersions: z.boolean().optional(),
         })
       ),
     },
-    async ({ filter, serial }: { filter?: string; serial?: string }) => {
-      const { stdout } = await adbShell('pm list packages', {
-        serial: normalizeSerial(serial),
-      });
-      const packages = toText(stdout)
-        .split('\n')
-        .map((line) => line.trim())
-        .filter(Boolean)
-        .map((line) => line.replace(/^package:/, ''));
-      const items = filter
-        ? packages.filter((name) => name.includes(filter))
-        : packages;
+    async ({
+      filter,
+      type = 'all',
+      disabled = false,
+      includeVersions = false,
+      serial,
+    }: {
+      filter?: string;
+      type?: 'all' | 'thirdParty' | 'system';
+      disabled?: boolean;
+      includeVersions?: boolean;
+      serial?: string;
+    }) => {
+      const flags = [
+        ...(type === 'thirdParty' ? ['-3'] : type === 'system' ? ['-s'] : []),
+        ...(disabled ? ['-d'] : []),
+        ...(includeVersions ? ['--show-versioncode'] : []),
+      ];
+      const { stdout } = await adbShell(
+        ['pm list packages', ...flags].join(' '),
+        { serial: normalizeSerial(serial) }
+      );
+      const packages = parsePackageList(toText(stdout)).filter(
+        (entry) => !filter || entry.packageName.includes(filter)
+      );
+      const items = includeVersions
+        ? packages
+        : packages.map((entry) => entry.packageName);
       return list('Packages fetched.', items);
     }
   );
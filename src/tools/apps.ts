@@ -0,0 +1,172 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { stat } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import { adbExec, adbShell } from '../adb.js';
+import { ADB_INSTALL_TIMEOUT_MS } from '../config.js';
+import { findPmFailure, parsePackageInfo } from '../package-parser.js';
+import { shellQuote } from '../shell.js';
+import { normalizeSerial, ok, toText, withSerial } from './shared.js';
+
+const packageSchema = z.object({
+  packageName: z.string(),
+});
+
+export async function getPackageInfo(packageName: string, serial?: string) {
+  const { stdout } = await adbShell(
+    `dumpsys package ${shellQuote(packageName)}`,
+    { serial }
+  );
+  return parsePackageInfo(toText(stdout), packageName);
+}
+
+async function runPm(command: string, serial?: string) {
+  const { stdout } = await adbShell(`${command} 2>&1`, { serial });
+  const output = toText(stdout).trim();
+  const failure = findPmFailure(output);
+  if (failure) throw new Error(`${command} failed: ${failure}`);
+  return output;
+}
+
+export function registerAppTools(server: McpServer) {
+  server.registerTool(
+    'installApk',
+    {
+      title: 'Install APK',
+      description:
+        'Install an APK, or a base APK plus splits with adb install-multiple. replace (-r) defaults to true; grantPermissions (-g) grants all runtime permissions; allowDowngrade (-d) permits a lower versionCode.',
+      inputSchema: withSerial(
+        z.object({
+          paths: z.array(z.string()).min(1),
+          replace: z.boolean().optional(),
+          grantPermissions: z.boolean().optional(),
+          allowDowngrade: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      paths,
+      replace = true,
+      grantPermissions = false,
+      allowDowngrade = false,
+      serial,
+    }: {
+      paths: string[];
+      replace?: boolean;
+      grantPermissions?: boolean;
+      allowDowngrade?: boolean;
+      serial?: string;
+    }) => {
+      const apks = paths.map((path) => resolve(path));
+      for (const apk of apks) {
+        const info = await stat(apk).catch(() => null);
+        if (!info?.isFile()) throw new Error(`APK ${apk} does not exist.`);
+      }
+      const args = [apks.length > 1 ? 'install-multiple' : 'install'];
+      if (replace) args.push('-r');
+      if (grantPermissions) args.push('-g');
+      if (allowDowngrade) args.push('-d');
+
+      let output: string;
+      try {
+        const { stdout } = await adbExec([...args, ...apks], {
+          serial: normalizeSerial(serial),
+          timeout: ADB_INSTALL_TIMEOUT_MS,
+        });
+        output = toText(stdout).trim();
+      } catch (error) {
+        // adb exits non-zero on install failures; keep pm's reason.
+        const { stdout, stderr } = error as { stdout?: string; stderr?: string };
+        output = `${stdout ?? ''}\n${stderr ?? ''}`.trim();
+        if (!output) throw error;
+      }
+      const failure = findPmFailure(output);
+      if (failure) {
+        throw new Error(`adb ${args[0]} failed: ${failure}`);
+      }
+      return ok(`Installed ${apks.length} APK(s).`, {
+        paths: apks,
+        command: args[0],
+        replace,
+        grantPermissions,
+        allowDowngrade,
+        output,
+      });
+    }
+  );
+
+  server.registerTool(
+    'uninstallApp',
+    {
+      title: 'Uninstall app',
+      description:
+        'Uninstall an app by package name; keepData keeps its data and cache directories.',
+      inputSchema: withSerial(
+        packageSchema.extend({
+          keepData: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      packageName,
+      keepData = false,
+      serial,
+    }: {
+      packageName: string;
+      keepData?: boolean;
+      serial?: string;
+    }) => {
+      await runPm(
+        `pm uninstall ${keepData ? '-k ' : ''}${shellQuote(packageName)}`,
+        normalizeSerial(serial)
+      );
+      return ok(`Uninstalled ${packageName}.`, { packageName, keepData });
+    }
+  );
+
+  server.registerTool(
+    'clearAppData',
+    {
+      title: 'Clear app data',
+      description:
+        'Delete all data of an app (pm clear), resetting it to a fresh install state.',
+      inputSchema: withSerial(packageSchema),
+    },
+    async ({ packageName, serial }: { packageName: string; serial?: string }) => {
+      await runPm(`pm clear ${shellQuote(packageName)}`, normalizeSerial(serial));
+      return ok(`Cleared data for ${packageName}.`, { packageName });
+    }
+  );
+
+  server.registerTool(
+    'forceStop',
+    {
+      title: 'Force stop',
+      description: 'Force-stop an app and all of its processes.',
+      inputSchema: withSerial(packageSchema),
+    },
+    async ({ packageName, serial }: { packageName: string; serial?: string }) => {
+      await adbShell(`am force-stop ${shellQuote(packageName)}`, {
+        serial: normalizeSerial(serial),
+      });
+      return ok(`Force-stopped ${packageName}.`, { packageName });
+    }
+  );
+
+  server.registerTool(
+    'appInfo',
+    {
+      title: 'App info',
+      description:
+        'Read dumpsys package for an app: version name/code, SDK levels, install and update times, installer, granted and denied permissions, and the launchable activity.',
+      inputSchema: withSerial(packageSchema),
+    },
+    async ({ packageName, serial }: { packageName: string; serial?: string }) => {
+      const info = await getPackageInfo(packageName, normalizeSerial(serial));
+      const text = info.installed
+        ? `${packageName} ${info.versionName ?? 'unknown'} (${info.versionCode ?? '?'}).`
+        : `${packageName} is not installed.`;
+      return ok(text, info);
+    }
+  );
+}
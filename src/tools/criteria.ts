@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { parseSelector } from '../selector.js';
+import type { FindCriteria } from '../ui-parser.js';
+
+export type SearchCriteria = FindCriteria;
+
+export function buildCriteria(criteria: SearchCriteria) {
+  // Surface selector syntax errors before any element lookups happen.
+  if (criteria.selector !== undefined) parseSelector(criteria.selector);
+  return criteria;
+}
+
+export const regionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+
+export const relationSchema = z.object({
+  text: z.string().optional(),
+  textContains: z.string().optional(),
+  class: z.string().optional(),
+  resourceId: z.string().optional(),
+  resourceIdContains: z.string().optional(),
+  contentDesc: z.string().optional(),
+  contentDescContains: z.string().optional(),
+  checkable: z.boolean().optional(),
+  clickable: z.boolean().optional(),
+  normalizeWhitespace: z.boolean().optional(),
+  caseInsensitive: z.boolean().optional(),
+});
+
+const spatialSchema = relationSchema.extend({
+  maxDistance: z.number().nonnegative().optional(),
+});
+
+export const criteriaSchema = relationSchema.extend({
+  hasAncestor: relationSchema.optional(),
+  hasParent: relationSchema.optional(),
+  hasDescendant: relationSchema.optional(),
+  hasChild: relationSchema.optional(),
+  selector: z.string().optional(),
+  below: spatialSchema.optional(),
+  above: spatialSchema.optional(),
+  leftOf: spatialSchema.optional(),
+  rightOf: spatialSchema.optional(),
+  sameRowAs: spatialSchema.optional(),
+  within: spatialSchema.optional(),
+  nearest: spatialSchema.optional(),
+});
@@ -0,0 +1,264 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbExec, adbShell, resolveAdbSerial } from '../adb.js';
+import {
+  BATTERY_STATUSES,
+  CALL_ACTIONS,
+  NETWORK_DELAYS,
+  NETWORK_SPEEDS,
+  batteryCommands,
+  callArgs,
+  findConsoleError,
+  fingerprintArgs,
+  geoFixArgs,
+  networkCommands,
+  smsArgs,
+  type BatteryOptions,
+  type CallAction,
+  type GeoPoint,
+  type NetworkDelay,
+  type NetworkSpeed,
+} from '../emulator-console.js';
+import {
+  isEmulatorSerial,
+  isQemuDevice,
+  QEMU_PROPS_COMMAND,
+} from '../emulator.js';
+import { normalizeSerial, ok, sleep, toText, withSerial } from './shared.js';
+
+const geoPointSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  altitude: z.number().optional(),
+});
+
+async function resolveEmulator(serial?: string) {
+  const target = normalizeSerial(serial) ?? (await resolveAdbSerial());
+  if (!target) throw new Error('No device selected.');
+  if (isEmulatorSerial(target)) return target;
+  const { stdout } = await adbShell(QEMU_PROPS_COMMAND, { serial: target });
+  if (isQemuDevice(toText(stdout))) {
+    throw new Error(
+      `${target} is an emulator connected over TCP; console commands need its emulator-<port> serial.`
+    );
+  }
+  throw new Error(
+    `${target} is not an emulator; console commands only work on emulator-<port> devices.`
+  );
+}
+
+async function emu(serial: string, args: string[]) {
+  const { stdout, stderr } = await adbExec(['emu', ...args], { serial });
+  const error = findConsoleError(`${toText(stdout)}\n${toText(stderr)}`);
+  if (error) throw new Error(`adb emu ${args.join(' ')} failed: ${error}`);
+}
+
+export function registerEmulatorConsoleTools(server: McpServer) {
+  server.registerTool(
+    'setLocation',
+    {
+      title: 'Set location',
+      description: 'Send a GPS fix to an emulator (geo fix).',
+      inputSchema: withSerial(geoPointSchema),
+    },
+    async ({ serial, ...point }: GeoPoint & { serial?: string }) => {
+      const target = await resolveEmulator(serial);
+      await emu(target, geoFixArgs(point));
+      return ok(`Location set to ${point.latitude}, ${point.longitude}.`, {
+        serial: target,
+        ...point,
+      });
+    }
+  );
+
+  server.registerTool(
+    'playRoute',
+    {
+      title: 'Play route',
+      description:
+        'Send a sequence of GPS fixes to an emulator, one every intervalMs, and return when the last one is sent.',
+      inputSchema: withSerial(
+        z.object({
+          points: z.array(geoPointSchema).min(1),
+          intervalMs: z.number().int().nonnegative().optional(),
+        })
+      ),
+    },
+    async ({
+      points,
+      intervalMs = 1000,
+      serial,
+    }: {
+      points: GeoPoint[];
+      intervalMs?: number;
+      serial?: string;
+    }) => {
+      const target = await resolveEmulator(serial);
+      // Validate every point before the emulator starts moving.
+      const commands = points.map(geoFixArgs);
+      const startedAt = Date.now();
+      for (const [index, args] of commands.entries()) {
+        if (index > 0 && intervalMs > 0) await sleep(intervalMs);
+        await emu(target, args);
+      }
+      return ok(`Played ${points.length} point(s).`, {
+        serial: target,
+        count: points.length,
+        durationMs: Date.now() - startedAt,
+        last: points[points.length - 1],
+      });
+    }
+  );
+
+  server.registerTool(
+    'setBattery',
+    {
+      title: 'Set battery',
+      description:
+        'Set the emulator battery level, charger connection and charging status.',
+      inputSchema: withSerial(
+        z.object({
+          level: z.number().int().min(0).max(100).optional(),
+          charging: z.boolean().optional(),
+          status: z.enum(BATTERY_STATUSES).optional(),
+        })
+      ),
+    },
+    async ({ serial, ...options }: BatteryOptions & { serial?: string }) => {
+      const target = await resolveEmulator(serial);
+      for (const args of batteryCommands(options)) await emu(target, args);
+      return ok('Battery updated.', { serial: target, ...options });
+    }
+  );
+
+  server.registerTool(
+    'setNetwork',
+    {
+      title: 'Set network',
+      description:
+        'Set the emulator network speed and latency profiles and toggle mobile data and Wi-Fi.',
+      inputSchema: withSerial(
+        z.object({
+          speed: z.enum(NETWORK_SPEEDS).optional(),
+          delay: z.enum(NETWORK_DELAYS).optional(),
+          data: z.boolean().optional(),
+          wifi: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      speed,
+      delay,
+      data,
+      wifi,
+      serial,
+    }: {
+      speed?: NetworkSpeed;
+      delay?: NetworkDelay;
+      data?: boolean;
+      wifi?: boolean;
+      serial?: string;
+    }) => {
+      if ([speed, delay, data, wifi].every((value) => value === undefined)) {
+        throw new Error('Pass at least one of speed, delay, data or wifi.');
+      }
+      const target = await resolveEmulator(serial);
+      for (const args of networkCommands({ speed, delay })) {
+        await emu(target, args);
+      }
+      // The console has no Wi-Fi switch, so both radios go through svc.
+      if (data !== undefined) {
+        await adbShell(`svc data ${data ? 'enable' : 'disable'}`, { serial: target });
+      }
+      if (wifi !== undefined) {
+        await adbShell(`svc wifi ${wifi ? 'enable' : 'disable'}`, { serial: target });
+      }
+      return ok('Network updated.', { serial: target, speed, delay, data, wifi });
+    }
+  );
+
+  server.registerTool(
+    'sendSms',
+    {
+      title: 'Send SMS',
+      description: 'Deliver an incoming SMS to the emulator.',
+      inputSchema: withSerial(
+        z.object({
+          from: z.string(),
+          message: z.string(),
+        })
+      ),
+    },
+    async ({
+      from,
+      message,
+      serial,
+    }: {
+      from: string;
+      message: string;
+      serial?: string;
+    }) => {
+      const target = await resolveEmulator(serial);
+      await emu(target, smsArgs(from, message));
+      return ok(`SMS from ${from} sent.`, { serial: target, from, message });
+    }
+  );
+
+  server.registerTool(
+    'simulateCall',
+    {
+      title: 'Simulate call',
+      description:
+        'Simulate an incoming call on the emulator, or accept, hold, mark busy or end it.',
+      inputSchema: withSerial(
+        z.object({
+          number: z.string(),
+          action: z.enum(CALL_ACTIONS).optional(),
+        })
+      ),
+    },
+    async ({
+      number,
+      action = 'incoming',
+      serial,
+    }: {
+      number: string;
+      action?: CallAction;
+      serial?: string;
+    }) => {
+      const target = await resolveEmulator(serial);
+      await emu(target, callArgs(action, number));
+      return ok(`Call ${action} for ${number}.`, { serial: target, number, action });
+    }
+  );
+
+  server.registerTool(
+    'touchFingerprint',
+    {
+      title: 'Touch fingerprint',
+      description:
+        'Touch the emulator fingerprint sensor with an enrolled finger id, then lift it.',
+      inputSchema: withSerial(
+        z.object({
+          fingerId: z.number().int().positive().optional(),
+          holdMs: z.number().int().nonnegative().optional(),
+        })
+      ),
+    },
+    async ({
+      fingerId = 1,
+      holdMs = 500,
+      serial,
+    }: {
+      fingerId?: number;
+      holdMs?: number;
+      serial?: string;
+    }) => {
+      const target = await resolveEmulator(serial);
+      await emu(target, fingerprintArgs(fingerId));
+      if (holdMs > 0) await sleep(holdMs);
+      await emu(target, ['finger', 'remove']);
+      return ok(`Touched fingerprint ${fingerId}.`, { serial: target, fingerId });
+    }
+  );
+}
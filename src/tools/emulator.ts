@@ -0,0 +1,291 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { execFile, spawn } from 'node:child_process';
+import { closeSync, openSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { z } from 'zod';
+import {
+  adbExec,
+  adbListDevices,
+  adbShell,
+  invalidateAdbSerial,
+  resolveAdbSerial,
+} from '../adb.js';
+import { ADB_TIMEOUT_MS, EMULATOR_PATH } from '../config.js';
+import {
+  buildEmulatorArgs,
+  emulatorSerial,
+  isEmulatorSerial,
+  nextFreePort,
+  parseAvdList,
+  parseAvdName,
+  type EmulatorOptions,
+} from '../emulator.js';
+import {
+  errorMessage,
+  normalizeSerial,
+  ok,
+  sleep,
+  toText,
+  withSerial,
+} from './shared.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_BOOT_TIMEOUT_MS = 180000;
+const KILL_TIMEOUT_MS = 30000;
+const POLL_INTERVAL_MS = 2000;
+
+export async function listAvdNames() {
+  try {
+    const { stdout } = await execFileAsync(EMULATOR_PATH, ['-list-avds'], {
+      timeout: ADB_TIMEOUT_MS,
+    });
+    return parseAvdList(stdout);
+  } catch (error) {
+    throw new Error(
+      `Could not run "${EMULATOR_PATH} -list-avds" (${errorMessage(error)}). Set EMULATOR_PATH or ANDROID_HOME.`
+    );
+  }
+}
+
+async function runningEmulators() {
+  const devices = await adbListDevices();
+  return Promise.all(
+    devices
+      .filter((device) => isEmulatorSerial(device.serial))
+      .map(async (device) => {
+        let avd: string | null = null;
+        try {
+          const { stdout } = await adbExec(['emu', 'avd', 'name'], {
+            serial: device.serial,
+          });
+          avd = parseAvdName(toText(stdout));
+        } catch {
+          // Offline or still booting; the console may not answer yet.
+        }
+        return { serial: device.serial, state: device.state, avd };
+      })
+  );
+}
+
+export async function waitForDeviceBoot({
+  serial,
+  timeoutMs = DEFAULT_BOOT_TIMEOUT_MS,
+  assertRunning,
+}: {
+  serial?: string;
+  timeoutMs?: number;
+  assertRunning?: () => Promise<void>;
+}) {
+  const startedAt = Date.now();
+  let waitingFor = 'device';
+  while (Date.now() - startedAt < timeoutMs) {
+    if (assertRunning) await assertRunning();
+    try {
+      const target = serial ?? (await resolveAdbSerial({ strict: false }));
+      if (target) {
+        const boot = await adbShell('getprop sys.boot_completed', {
+          serial: target,
+        });
+        if (toText(boot.stdout).trim() === '1') {
+          const pm = await adbShell('pm path android', { serial: target });
+          if (toText(pm.stdout).trim().startsWith('package:')) {
+            return { serial: target, bootMs: Date.now() - startedAt };
+          }
+          waitingFor = 'package manager';
+        } else {
+          waitingFor = 'sys.boot_completed';
+        }
+      }
+    } catch (error) {
+      waitingFor = `device (${errorMessage(error)})`;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new Error(
+    `Device did not finish booting within ${timeoutMs}ms; still waiting for ${waitingFor}.`
+  );
+}
+
+export function registerEmulatorTools(server: McpServer) {
+  server.registerTool(
+    'listAvds',
+    {
+      title: 'List AVDs',
+      description:
+        'List Android Virtual Devices from emulator -list-avds and which of them are running.',
+      inputSchema: z.object({}),
+    },
+    async () => {
+      const [names, running] = await Promise.all([
+        listAvdNames(),
+        runningEmulators(),
+      ]);
+      const items = names.map((name) => {
+        const instance = running.find((emulator) => emulator.avd === name);
+        return {
+          name,
+          running: Boolean(instance),
+          serial: instance?.serial ?? null,
+          state: instance?.state ?? null,
+        };
+      });
+      return ok(`Found ${items.length} AVD(s).`, {
+        items,
+        emulatorPath: EMULATOR_PATH,
+      });
+    }
+  );
+
+  server.registerTool(
+    'startEmulator',
+    {
+      title: 'Start emulator',
+      description:
+        'Boot an AVD in the background (headless, wipeData, coldBoot, snapshot, port) and by default wait until it has booted.',
+      inputSchema: z.object({
+        avd: z.string(),
+        headless: z.boolean().optional(),
+        wipeData: z.boolean().optional(),
+        coldBoot: z.boolean().optional(),
+        snapshot: z.string().optional(),
+        port: z.number().int().optional(),
+        waitForBoot: z.boolean().optional(),
+        timeoutMs: z.number().int().positive().optional(),
+      }),
+    },
+    async ({
+      waitForBoot = true,
+      timeoutMs,
+      ...options
+    }: EmulatorOptions & { waitForBoot?: boolean; timeoutMs?: number }) => {
+      const names = await listAvdNames();
+      if (!names.includes(options.avd)) {
+        throw new Error(
+          `AVD ${options.avd} not found. Available AVDs: ${names.join(', ') || 'none'}.`
+        );
+      }
+      const devices = await adbListDevices();
+      const port = options.port ?? nextFreePort(devices.map((d) => d.serial));
+      const serial = emulatorSerial(port);
+      if (devices.some((device) => device.serial === serial)) {
+        throw new Error(`${serial} is already running; pick another port.`);
+      }
+      const args = buildEmulatorArgs({ ...options, port });
+
+      const logPath = join(tmpdir(), `expo-android-emulator-${port}.log`);
+      const logFd = openSync(logPath, 'w');
+      const child = spawn(EMULATOR_PATH, args, {
+        detached: true,
+        stdio: ['ignore', logFd, logFd],
+      });
+      closeSync(logFd);
+      let exitCode: number | null = null;
+      child.on('exit', (code) => {
+        exitCode = code ?? -1;
+      });
+      const spawnError = await new Promise<Error | null>((resolve) => {
+        child.once('error', resolve);
+        child.once('spawn', () => resolve(null));
+      });
+      if (spawnError) {
+        throw new Error(
+          `Could not start ${EMULATOR_PATH}: ${spawnError.message}. Set EMULATOR_PATH or ANDROID_HOME.`
+        );
+      }
+      // The emulator outlives this server; do not keep the event loop alive.
+      child.unref();
+      invalidateAdbSerial();
+
+      const base = {
+        avd: options.avd,
+        serial,
+        port,
+        pid: child.pid ?? null,
+        args,
+        logPath,
+      };
+      if (!waitForBoot) {
+        return ok(`Emulator ${options.avd} starting as ${serial}.`, {
+          ...base,
+          booted: false,
+          bootMs: null,
+        });
+      }
+
+      const { bootMs } = await waitForDeviceBoot({
+        serial,
+        timeoutMs,
+        assertRunning: async () => {
+          if (exitCode === null) return;
+          const log = (await readFile(logPath, 'utf8').catch(() => ''))
+            .trim()
+            .split('\n')
+            .slice(-5)
+            .join('\n');
+          throw new Error(
+            `Emulator exited with code ${exitCode} before booting. ${log}`.trim()
+          );
+        },
+      });
+      return ok(`Emulator ${options.avd} booted as ${serial} in ${bootMs}ms.`, {
+        ...base,
+        booted: true,
+        bootMs,
+      });
+    }
+  );
+
+  server.registerTool(
+    'waitForBoot',
+    {
+      title: 'Wait for boot',
+      description:
+        'Wait until a device reports sys.boot_completed=1 and the package manager answers.',
+      inputSchema: withSerial(
+        z.object({
+          timeoutMs: z.number().int().positive().optional(),
+        })
+      ),
+    },
+    async ({ timeoutMs, serial }: { timeoutMs?: number; serial?: string }) => {
+      const result = await waitForDeviceBoot({
+        serial: normalizeSerial(serial),
+        timeoutMs,
+      });
+      return ok(`${result.serial} booted.`, { booted: true, ...result });
+    }
+  );
+
+  server.registerTool(
+    'killEmulator',
+    {
+      title: 'Kill emulator',
+      description:
+        'Shut down an emulator with adb emu kill and wait until it leaves adb devices.',
+      inputSchema: withSerial(z.object({})),
+    },
+    async ({ serial }: { serial?: string }) => {
+      const target = normalizeSerial(serial) ?? (await resolveAdbSerial());
+      if (!target || !isEmulatorSerial(target)) {
+        throw new Error(`${target ?? 'The selected device'} is not an emulator.`);
+      }
+      await adbExec(['emu', 'kill'], { serial: target });
+      const deadline = Date.now() + KILL_TIMEOUT_MS;
+      while (Date.now() < deadline) {
+        const devices = await adbListDevices();
+        if (!devices.some((device) => device.serial === target)) {
+          invalidateAdbSerial();
+          return ok(`Emulator ${target} stopped.`, { serial: target, stopped: true });
+        }
+        await sleep(1000);
+      }
+      throw new Error(
+        `Emulator ${target} is still listed after ${KILL_TIMEOUT_MS}ms.`
+      );
+    }
+  );
+}
@@ -0,0 +1,267 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbExec, adbShell } from '../adb.js';
+import {
+  ADB_INSTALL_TIMEOUT_MS,
+  EXPO_ANDROID_CACHE_DIR,
+  EXPO_GO_APK_URL,
+} from '../config.js';
+import { EXPO_GO_PACKAGE, EXPO_GO_VERSIONS_API } from '../expo/constants.js';
+import {
+  compareVersions,
+  downloadApk,
+  resolveLatestExpoGo,
+  versionFromApkUrl,
+} from '../expo/go.js';
+import { classifyExpoScreen } from '../expo/screens.js';
+import {
+  buildStartActivityCommand,
+  findAmError,
+  parseLaunchTiming,
+} from '../intent.js';
+import { parsePackageVersion } from '../package-parser.js';
+import {
+  normalizeSerial,
+  ok,
+  sleep,
+  toText,
+  withSerial,
+} from './shared.js';
+import { fetchUiElementsWithRetry, isOnlyProgress } from './ui.js';
+
+async function getExpoGoVersion(serial?: string) {
+  const { stdout } = await adbShell(`dumpsys package ${EXPO_GO_PACKAGE}`, {
+    serial,
+  });
+  return parsePackageVersion(toText(stdout), EXPO_GO_PACKAGE);
+}
+
+async function launchExpoGo(serial?: string) {
+  await adbShell(
+    `monkey -p ${EXPO_GO_PACKAGE} -c android.intent.category.LAUNCHER 1`,
+    { serial }
+  );
+}
+
+// A newer Expo Go than the target counts as current: `adb install -r` cannot
+// downgrade it without -d. When the APK URL carries no version there is
+// nothing to compare, so any installed build counts as current.
+function isAtLeast(installed: string | null, target: string | null) {
+  if (target === null) return true;
+  return installed !== null && compareVersions(installed, target) >= 0;
+}
+
+function isExpoGoUrl(url: string) {
+  return /^exps?:\/\//i.test(url);
+}
+
+export function registerExpoTools(server: McpServer) {
+  server.registerTool(
+    'installExpoGo',
+    {
+      title: 'Install Expo Go',
+      description:
+        'Check the installed Expo Go version and install the pinned (or latest) APK when it is missing or older.',
+      inputSchema: withSerial(
+        z.object({
+          source: z.enum(['pinned', 'latest']).optional(),
+          url: z.string().url().optional(),
+          force: z.boolean().optional(),
+          checkOnly: z.boolean().optional(),
+          launch: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      source,
+      url,
+      force,
+      checkOnly,
+      launch,
+      serial,
+    }: {
+      source?: 'pinned' | 'latest';
+      url?: string;
+      force?: boolean;
+      checkOnly?: boolean;
+      launch?: boolean;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const pinnedVersion = versionFromApkUrl(EXPO_GO_APK_URL);
+      const before = await getExpoGoVersion(resolvedSerial);
+
+      let targetUrl = url ?? EXPO_GO_APK_URL;
+      let targetVersion = url ? versionFromApkUrl(url) : pinnedVersion;
+      if (!url && source === 'latest') {
+        const latest = await resolveLatestExpoGo(EXPO_GO_VERSIONS_API);
+        targetUrl = latest.url;
+        targetVersion = latest.version;
+      }
+
+      const base = {
+        packageName: EXPO_GO_PACKAGE,
+        installedVersion: before.versionName,
+        pinnedVersion,
+        targetVersion,
+        targetUrl,
+      };
+      const upToDate =
+        before.installed && isAtLeast(before.versionName, targetVersion);
+
+      if (checkOnly) {
+        const text = before.installed
+          ? `Expo Go ${before.versionName ?? 'unknown'} installed (target ${targetVersion ?? 'unknown'}).`
+          : `Expo Go is not installed (target ${targetVersion ?? 'unknown'}).`;
+        return ok(text, {
+          ...base,
+          action: 'checked',
+          wasInstalled: before.installed,
+          upToDate,
+          apkPath: null,
+        });
+      }
+
+      if (upToDate && !force) {
+        if (launch) await launchExpoGo(resolvedSerial);
+        const text =
+          targetVersion === null
+            ? `Expo Go ${before.versionName ?? 'unknown'} already installed (target version unknown; pass force to reinstall).`
+            : before.versionName !== targetVersion
+              ? `Expo Go ${before.versionName} already installed (newer than target ${targetVersion}).`
+              : `Expo Go ${before.versionName} already installed.`;
+        return ok(text, {
+          ...base,
+          action: 'skipped',
+          wasInstalled: true,
+          upToDate,
+          apkPath: null,
+          launched: launch ?? false,
+        });
+      }
+
+      const apk = await downloadApk({
+        url: targetUrl,
+        cacheDir: EXPO_ANDROID_CACHE_DIR,
+        force,
+      });
+      const installArgs = force
+        ? ['install', '-r', '-d', apk.path]
+        : ['install', '-r', apk.path];
+      const { stdout } = await adbExec(installArgs, {
+        serial: resolvedSerial,
+        timeout: ADB_INSTALL_TIMEOUT_MS,
+      });
+      const output = toText(stdout).trim();
+      if (!/\bSuccess\b/.test(output)) {
+        throw new Error(`adb install failed for ${apk.path}: ${output}`);
+      }
+
+      const after = await getExpoGoVersion(resolvedSerial);
+      if (launch) await launchExpoGo(resolvedSerial);
+      return ok(`Expo Go ${after.versionName ?? 'unknown'} installed.`, {
+        ...base,
+        previousVersion: before.versionName,
+        installedVersion: after.versionName,
+        action: 'installed',
+        wasInstalled: before.installed,
+        upToDate: isAtLeast(after.versionName, targetVersion),
+        apkPath: apk.path,
+        apkCached: apk.cached,
+        launched: launch ?? false,
+      });
+    }
+  );
+
+  server.registerTool(
+    'openExpoUrl',
+    {
+      title: 'Open Expo URL',
+      description:
+        'Open an exp:// or dev-client URL and wait until the bundle loads or an error screen appears.',
+      inputSchema: withSerial(
+        z.object({
+          url: z
+            .string()
+            .regex(/^[a-z][a-z0-9+.-]*:\/\//i, 'Expected a URL with a scheme.'),
+          packageName: z.string().optional(),
+          timeout: z.number().optional(),
+          interval: z.number().optional(),
+        })
+      ),
+    },
+    async ({
+      url,
+      packageName,
+      timeout,
+      interval,
+      serial,
+    }: {
+      url: string;
+      packageName?: string;
+      timeout?: number;
+      interval?: number;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const targetPackage =
+        packageName ?? (isExpoGoUrl(url) ? EXPO_GO_PACKAGE : undefined);
+      const timeoutMs = Math.max(0, timeout ?? 60000);
+      const intervalMs = Math.max(50, interval ?? 1000);
+
+      const command = buildStartActivityCommand({
+        action: 'android.intent.action.VIEW',
+        data: url,
+        packageName: targetPackage,
+      });
+      const { stdout } = await adbShell(command, { serial: resolvedSerial });
+      const amOutput = toText(stdout);
+      const amError = findAmError(amOutput);
+      if (amError) {
+        throw new Error(`Failed to open ${url}: ${amError}`);
+      }
+      const launch = parseLaunchTiming(amOutput);
+
+      const start = Date.now();
+      let state: 'loaded' | 'error' | 'timeout' = 'timeout';
+      let errorText: string | null = null;
+      let elementCount = 0;
+      while (Date.now() - start <= timeoutMs) {
+        const elements = await fetchUiElementsWithRetry({
+          serial: resolvedSerial,
+        });
+        elementCount = elements.length;
+        const screen = classifyExpoScreen(elements);
+        if (screen.state === 'error') {
+          state = 'error';
+          errorText = screen.errorText;
+          break;
+        }
+        if (!isOnlyProgress(elements) && screen.state === 'loaded') {
+          state = 'loaded';
+          break;
+        }
+        await sleep(intervalMs);
+      }
+
+      const elapsed = Date.now() - start;
+      const data = {
+        url,
+        packageName: targetPackage ?? null,
+        loaded: state === 'loaded',
+        state,
+        errorText,
+        elapsed,
+        elementCount,
+        launch,
+      };
+      if (state === 'loaded') {
+        return ok(`Bundle loaded after ${elapsed}ms.`, data);
+      }
+      if (state === 'error') {
+        return ok(`Error screen shown after ${elapsed}ms.`, data);
+      }
+      return ok(`App still loading after ${elapsed}ms.`, data);
+    }
+  );
+}
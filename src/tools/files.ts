@@ -0,0 +1,228 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mkdir, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { adbExec, adbShell } from '../adb.js';
+import {
+  findLsError,
+  isSharedStorage,
+  mediaScanUri,
+  parseLsOutput,
+  remoteJoin,
+} from '../files.js';
+import { buildBroadcastCommand, findAmError } from '../intent.js';
+import { shellQuote } from '../shell.js';
+import { list, normalizeSerial, ok, toText, withSerial } from './shared.js';
+
+const TRANSFER_TIMEOUT_MS = 120000;
+
+function transferSummary(output: string) {
+  const lines = output.trim().split('\n');
+  return lines[lines.length - 1]?.trim() ?? '';
+}
+
+async function scanMediaFiles(remotePath: string, serial?: string) {
+  const { stdout } = await adbShell(
+    `find ${shellQuote(remotePath)} -type f 2>/dev/null`,
+    { serial }
+  );
+  const files = toText(stdout)
+    .split('\n')
+    .map((line) => line.replace(/\r$/, ''))
+    .filter(Boolean);
+  for (const file of files) {
+    const command = buildBroadcastCommand({
+      action: 'android.intent.action.MEDIA_SCANNER_SCAN_FILE',
+      data: mediaScanUri(file),
+    });
+    const output = toText((await adbShell(command, { serial })).stdout);
+    const error = findAmError(output);
+    if (error) throw new Error(`Media scan of ${file} failed: ${error}`);
+  }
+  return files;
+}
+
+export function registerFileTools(server: McpServer) {
+  server.registerTool(
+    'pushFile',
+    {
+      title: 'Push file',
+      description:
+        'Copy a local file or directory to the device with adb push. Set mediaScan to index pushed files under /sdcard so they show up in galleries and pickers.',
+      inputSchema: withSerial(
+        z.object({
+          localPath: z.string(),
+          remotePath: z.string(),
+          mediaScan: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      localPath,
+      remotePath,
+      mediaScan = false,
+      serial,
+    }: {
+      localPath: string;
+      remotePath: string;
+      mediaScan?: boolean;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const source = resolve(localPath);
+      const info = await stat(source).catch(() => null);
+      if (!info) throw new Error(`Local path ${source} does not exist.`);
+      if (mediaScan && !isSharedStorage(remotePath)) {
+        throw new Error(
+          'mediaScan only applies to shared storage (/sdcard or /storage).'
+        );
+      }
+
+      const { stdout } = await adbExec(['push', source, remotePath], {
+        serial: resolvedSerial,
+        timeout: TRANSFER_TIMEOUT_MS,
+      });
+      const target = remotePath.endsWith('/')
+        ? remoteJoin(remotePath, basename(source))
+        : remotePath;
+      const scanned = mediaScan
+        ? await scanMediaFiles(target, resolvedSerial)
+        : [];
+      const summary = transferSummary(toText(stdout));
+      const text = mediaScan
+        ? `Pushed ${source} to ${target} and scanned ${scanned.length} file(s).`
+        : `Pushed ${source} to ${target}.`;
+      return ok(text, {
+        localPath: source,
+        remotePath: target,
+        bytes: info.isFile() ? info.size : null,
+        summary,
+        scanned,
+      });
+    }
+  );
+
+  server.registerTool(
+    'pullFile',
+    {
+      title: 'Pull file',
+      description:
+        'Copy a file or directory from the device with adb pull (default destination: temp dir).',
+      inputSchema: withSerial(
+        z.object({
+          remotePath: z.string(),
+          localPath: z.string().optional(),
+        })
+      ),
+    },
+    async ({
+      remotePath,
+      localPath,
+      serial,
+    }: {
+      remotePath: string;
+      localPath?: string;
+      serial?: string;
+    }) => {
+      const target = localPath
+        ? resolve(localPath)
+        : join(tmpdir(), basename(remotePath.replace(/\/+$/, '')));
+      await mkdir(dirname(target), { recursive: true });
+      const { stdout } = await adbExec(['pull', remotePath, target], {
+        serial: normalizeSerial(serial),
+        timeout: TRANSFER_TIMEOUT_MS,
+      });
+      const info = await stat(target);
+      return ok(`Pulled ${remotePath} to ${target}.`, {
+        remotePath,
+        localPath: target,
+        bytes: info.isFile() ? info.size : null,
+        summary: transferSummary(toText(stdout)),
+      });
+    }
+  );
+
+  server.registerTool(
+    'listDir',
+    {
+      title: 'List directory',
+      description:
+        'List a device directory with ls -la, parsed into entries with name, type, size, mtime, permissions and symlink target.',
+      inputSchema: withSerial(
+        z.object({
+          path: z.string(),
+          showHidden: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      path,
+      showHidden = false,
+      serial,
+    }: {
+      path: string;
+      showHidden?: boolean;
+      serial?: string;
+    }) => {
+      // The trailing slash lists the target of symlinked dirs such as /sdcard.
+      const { stdout } = await adbShell(
+        `ls -la ${shellQuote(path.endsWith('/') ? path : `${path}/`)} 2>&1`,
+        { serial: normalizeSerial(serial) }
+      );
+      const output = toText(stdout);
+      const entries = parseLsOutput(output);
+      const error = findLsError(output);
+      if (error && entries.length === 0) {
+        throw new Error(`ls failed: ${error}`);
+      }
+      const visible = showHidden
+        ? entries
+        : entries.filter((entry) => !entry.name.startsWith('.'));
+      return list(`Listed ${visible.length} entries in ${path}.`, visible);
+    }
+  );
+
+  server.registerTool(
+    'deleteFile',
+    {
+      title: 'Delete file',
+      description:
+        'Delete a file on the device; set recursive to delete a directory and its contents.',
+      inputSchema: withSerial(
+        z.object({
+          path: z.string(),
+          recursive: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      path,
+      recursive = false,
+      serial,
+    }: {
+      path: string;
+      recursive?: boolean;
+      serial?: string;
+    }) => {
+      const segments = path.split('/').filter(Boolean);
+      if (segments.length === 0 || (recursive && segments.length < 2)) {
+        throw new Error(`Refusing to delete ${path}; pass a deeper path.`);
+      }
+      const resolvedSerial = normalizeSerial(serial);
+      const quoted = shellQuote(path);
+      const { stdout } = await adbShell(
+        `if [ -e ${quoted} ] || [ -L ${quoted} ]; then rm ${recursive ? '-rf' : '-f'} ${quoted} 2>&1 && echo deleted; else echo missing; fi`,
+        { serial: resolvedSerial }
+      );
+      const output = toText(stdout).trim();
+      if (output === 'missing') {
+        return ok(`${path} does not exist.`, { path, deleted: false });
+      }
+      if (!output.endsWith('deleted')) {
+        throw new Error(`rm failed: ${output}`);
+      }
+      return ok(`Deleted ${path}.`, { path, deleted: true });
+    }
+  );
+}
@@ -0,0 +1,206 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, relative, resolve } from 'node:path';
+import { z } from 'zod';
+import {
+  describeStep,
+  parseFlow,
+  planStep,
+  substituteVariables,
+  toJUnitXml,
+  type FlowReport,
+  type StepReport,
+} from '../flow.js';
+import { stepFailure } from '../recorder.js';
+import { getReplayHandler, validateReplayArgs } from './recorder.js';
+import { errorMessage, ok, withSerial } from './shared.js';
+
+type RunContext = {
+  serial?: string;
+  rootDir: string;
+  steps: StepReport[];
+  failed: boolean;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function executeFlow(
+  filePath: string,
+  env: Record<string, string>,
+  stack: string[],
+  context: RunContext
+) {
+  if (stack.includes(filePath)) {
+    throw new Error(
+      `runFlow cycle: ${[...stack, filePath].map((file) => basename(file)).join(' -> ')}`
+    );
+  }
+  const flow = parseFlow(await readFile(filePath, 'utf8'));
+  const variables = { ...flow.config.env, ...env };
+  const flowName = relative(context.rootDir, filePath) || basename(filePath);
+  const baseDir = dirname(filePath);
+
+  for (const step of flow.steps) {
+    const report: StepReport = {
+      index: context.steps.length + 1,
+      flow: flowName,
+      command: step.command,
+      description: describeStep(step),
+      status: 'skipped',
+      durationMs: 0,
+    };
+    context.steps.push(report);
+    if (context.failed) continue;
+
+    const started = Date.now();
+    try {
+      const value = substituteVariables(step.value, variables);
+      if (step.command === 'runFlow') {
+        const include = isRecord(value) ? value : { file: value };
+        if (typeof include.file !== 'string') {
+          throw new Error('runFlow expects a file path.');
+        }
+        const includeEnv = isRecord(include.env)
+          ? Object.fromEntries(
+              Object.entries(include.env).map(([key, item]) => [key, String(item)])
+            )
+          : {};
+        await executeFlow(
+          resolve(baseDir, include.file),
+          { ...variables, ...includeEnv },
+          [...stack, filePath],
+          context
+        );
+        if (context.failed) throw new Error(`Included flow ${include.file} failed.`);
+      } else {
+        const call = planStep(
+          { command: step.command, value },
+          { appId: flow.config.appId, baseDir }
+        );
+        const handler = getReplayHandler(call.tool);
+        if (!handler) throw new Error(`Tool "${call.tool}" is not available.`);
+        try {
+          validateReplayArgs(call.tool, call.args);
+        } catch (error) {
+          throw new Error(`${step.command}: ${errorMessage(error)}`);
+        }
+        const failure = stepFailure(
+          await handler({ ...call.args, serial: context.serial })
+        );
+        if (failure !== null) throw new Error(failure);
+      }
+      report.status = 'passed';
+    } catch (error) {
+      report.status = 'failed';
+      report.message = errorMessage(error);
+      context.failed = true;
+    }
+    report.durationMs = Date.now() - started;
+  }
+  return flow.config.name;
+}
+
+export async function runFlowFile(
+  path: string,
+  { env = {}, serial }: { env?: Record<string, string>; serial?: string } = {}
+): Promise<FlowReport> {
+  const filePath = resolve(path);
+  const startedAt = new Date();
+  const context: RunContext = {
+    serial,
+    rootDir: dirname(filePath),
+    steps: [],
+    failed: false,
+  };
+  let name = basename(filePath);
+  try {
+    name = (await executeFlow(filePath, env, [], context)) ?? name;
+  } catch (error) {
+    // Parse errors in the top-level file have no step to attach to.
+    context.steps.push({
+      index: context.steps.length + 1,
+      flow: basename(filePath),
+      command: 'runFlow',
+      description: `runFlow: ${basename(filePath)}`,
+      status: 'failed',
+      durationMs: 0,
+      message: errorMessage(error),
+    });
+    context.failed = true;
+  }
+  return {
+    name,
+    path: filePath,
+    passed: !context.failed,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    steps: context.steps,
+  };
+}
+
+export async function writeFlowOutputs(
+  report: FlowReport,
+  { junitPath, jsonPath }: { junitPath?: string; jsonPath?: string }
+) {
+  const written: { junitPath: string | null; jsonPath: string | null } = {
+    junitPath: null,
+    jsonPath: null,
+  };
+  if (junitPath) {
+    written.junitPath = resolve(junitPath);
+    await mkdir(dirname(written.junitPath), { recursive: true });
+    await writeFile(written.junitPath, toJUnitXml([report]));
+  }
+  if (jsonPath) {
+    written.jsonPath = resolve(jsonPath);
+    await mkdir(dirname(written.jsonPath), { recursive: true });
+    await writeFile(written.jsonPath, `${JSON.stringify(report, null, 2)}\n`);
+  }
+  return written;
+}
+
+export function summarizeFlow(report: FlowReport) {
+  const failed = report.steps.find((step) => step.status === 'failed');
+  const passed = report.steps.filter((step) => step.status === 'passed').length;
+  return failed
+    ? `Flow ${report.name} failed at step ${failed.index} (${failed.description}): ${failed.message}`
+    : `Flow ${report.name} passed: ${passed} step(s) in ${report.durationMs}ms.`;
+}
+
+export function registerFlowTools(server: McpServer) {
+  server.registerTool(
+    'runFlow',
+    {
+      title: 'Run flow',
+      description:
+        'Run a YAML flow (launchApp, tapOn, inputText, assertVisible, assertNotVisible, scrollUntilVisible, waitFor, back, screenshot, runFlow) and report each step; optionally write JUnit XML and JSON reports.',
+      inputSchema: withSerial(
+        z.object({
+          path: z.string(),
+          env: z.record(z.string(), z.string()).optional(),
+          junitPath: z.string().optional(),
+          jsonPath: z.string().optional(),
+        })
+      ),
+    },
+    async ({
+      path,
+      env,
+      junitPath,
+      jsonPath,
+      serial,
+    }: {
+      path: string;
+      env?: Record<string, string>;
+      junitPath?: string;
+      jsonPath?: string;
+      serial?: string;
+    }) => {
+      const report = await runFlowFile(path, { env, serial });
+      const written = await writeFlowOutputs(report, { junitPath, jsonPath });
+      return ok(summarizeFlow(report), { ...report, ...written });
+    }
+  );
+}
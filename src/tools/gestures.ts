@@ -0,0 +1,533 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell } from '../adb.js';
+import { ADB_TIMEOUT_MS } from '../config.js';
+import {
+  buildSendeventScript,
+  elementSwipe,
+  interpolatePath,
+  MOTIONEVENT_MIN_SDK,
+  motionEventCommands,
+  parseScreenSize,
+  parseSdkLevel,
+  parseTouchDevice,
+  pinchPaths,
+  rotatePaths,
+  swipeDuration,
+  SWIPE_SPEEDS,
+  type Point,
+  type SwipeDirection,
+} from '../gestures.js';
+import { findElements, type UIElement } from '../ui-parser.js';
+import {
+  buildCriteria,
+  criteriaSchema,
+  type SearchCriteria,
+} from './criteria.js';
+import {
+  errorMessage,
+  normalizeSerial,
+  ok,
+  toText,
+  withSerial,
+} from './shared.js';
+import { fetchUiElements, hasValidBounds } from './ui.js';
+
+type GestureMethod = 'auto' | 'motionevent' | 'sendevent';
+
+const pointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const methodSchema = z.enum(['auto', 'motionevent', 'sendevent']);
+
+const speedSchema = z.union([
+  z.enum(Object.keys(SWIPE_SPEEDS) as [keyof typeof SWIPE_SPEEDS]),
+  z.number().positive(),
+]);
+
+const DEFAULT_SAFE_MARGIN = 100;
+
+const timingSchema = z.object({
+  duration: z.number().nonnegative().optional(),
+  steps: z.number().int().positive().max(100).optional(),
+  method: methodSchema.optional(),
+});
+
+async function getSdkLevel(serial?: string) {
+  const { stdout } = await adbShell('getprop ro.build.version.sdk', { serial });
+  return parseSdkLevel(toText(stdout));
+}
+
+async function getScreenSize(serial?: string) {
+  const { stdout } = await adbShell('wm size', { serial });
+  const screen = parseScreenSize(toText(stdout));
+  if (!screen) {
+    throw new Error('Could not read the screen size from `wm size`.');
+  }
+  return screen;
+}
+
+async function runSendevent(
+  paths: Point[][],
+  {
+    holdMs,
+    frameDelayMs,
+    serial,
+  }: { holdMs: number; frameDelayMs: number; serial?: string }
+) {
+  const [{ stdout: events }, screen] = await Promise.all([
+    adbShell('getevent -pl', { serial }),
+    getScreenSize(serial),
+  ]);
+  const device = parseTouchDevice(toText(events));
+  if (!device) {
+    throw new Error('No multi-touch input device found in `getevent -pl`.');
+  }
+  const script = buildSendeventScript(paths, device, screen, {
+    holdMs,
+    frameDelayMs,
+  });
+  await adbShell(script, {
+    serial,
+    timeout: gestureTimeout(paths, holdMs, frameDelayMs),
+  });
+}
+
+const MOTIONEVENT_REJECTED = /Unknown command|usage:/i;
+
+async function releasePointer(point: Point, serial?: string) {
+  await adbShell(`input motionevent UP ${point.x} ${point.y}`, {
+    serial,
+  }).catch(() => undefined);
+}
+
+// DOWN runs on its own so an unsupported `input motionevent` is detected
+// before anything is injected. Returns false in that case; any later failure
+// releases the pointer and throws rather than replaying the gesture.
+async function runMotionEvent(
+  path: Point[],
+  { holdMs, serial }: { holdMs: number; serial?: string }
+) {
+  const [down, ...rest] = motionEventCommands(path, { holdMs });
+  const failed = (output: string) =>
+    /Error/i.test(output) || MOTIONEVENT_REJECTED.test(output);
+  try {
+    const { stdout } = await adbShell(down, { serial });
+    const output = toText(stdout);
+    if (MOTIONEVENT_REJECTED.test(output)) return false;
+    if (failed(output)) throw new Error(output.trim());
+  } catch (error) {
+    if (MOTIONEVENT_REJECTED.test(errorMessage(error))) return false;
+    await releasePointer(path[0], serial);
+    throw new Error(`input motionevent failed: ${errorMessage(error)}`);
+  }
+
+  try {
+    // Each `input` call already takes a few hundred ms, so no extra delay.
+    const { stdout } = await adbShell(rest.join(' && '), {
+      serial,
+      timeout: gestureTimeout([path], holdMs, 0),
+    });
+    const output = toText(stdout);
+    if (failed(output)) throw new Error(output.trim());
+  } catch (error) {
+    await releasePointer(path[path.length - 1], serial);
+    throw new Error(`input motionevent failed: ${errorMessage(error)}`);
+  }
+  return true;
+}
+
+function gestureTimeout(paths: Point[][], holdMs: number, stepMs: number) {
+  return ADB_TIMEOUT_MS + holdMs + paths[0].length * (stepMs + 1000);
+}
+
+async function performGesture(
+  paths: Point[][],
+  {
+    method = 'auto',
+    holdMs = 0,
+    duration = 400,
+    steps = 10,
+    serial,
+  }: {
+    method?: GestureMethod;
+    holdMs?: number;
+    duration?: number;
+    steps?: number;
+    serial?: string;
+  }
+): Promise<'motionevent' | 'sendevent'> {
+  const sampled = paths.map((path) => interpolatePath(path, steps));
+  const frameDelayMs = Math.round(duration / steps);
+
+  if (method === 'motionevent' && sampled.length > 1) {
+    throw new Error(
+      'input motionevent drives a single pointer; use method "sendevent" for multi-pointer gestures.'
+    );
+  }
+  let useMotionEvent = method === 'motionevent';
+  if (method === 'auto' && sampled.length === 1) {
+    const sdk = await getSdkLevel(serial);
+    useMotionEvent = sdk !== null && sdk >= MOTIONEVENT_MIN_SDK;
+  }
+
+  if (useMotionEvent) {
+    if (await runMotionEvent(sampled[0], { holdMs, serial })) {
+      return 'motionevent';
+    }
+    if (method === 'motionevent') {
+      throw new Error('input motionevent is not supported on this device.');
+    }
+  }
+
+  await runSendevent(sampled, { holdMs, frameDelayMs, serial });
+  return 'sendevent';
+}
+
+async function resolveAnchor(criteria: SearchCriteria, serial?: string) {
+  const elements = await fetchUiElements(serial);
+  const [element] = findElements(elements, buildCriteria(criteria));
+  if (!element) throw new Error('No element matched the anchor criteria.');
+  return element;
+}
+
+async function resolveCenter({
+  x,
+  y,
+  element,
+  serial,
+}: {
+  x?: number;
+  y?: number;
+  element?: SearchCriteria;
+  serial?: string;
+}): Promise<{ center: Point; anchor: UIElement | null }> {
+  if (element) {
+    const anchor = await resolveAnchor(element, serial);
+    return { center: anchor.center, anchor };
+  }
+  if (x === undefined || y === undefined) {
+    throw new Error('Pass x and y, or an element to anchor the gesture.');
+  }
+  return { center: { x, y }, anchor: null };
+}
+
+function shortSide(anchor: UIElement | null, fallback: number) {
+  if (!anchor) return fallback;
+  const { x1, y1, x2, y2 } = anchor.bounds;
+  return Math.min(x2 - x1, y2 - y1);
+}
+
+export function registerGestureTools(server: McpServer) {
+  server.registerTool(
+    'pinch',
+    {
+      title: 'Pinch',
+      description:
+        'Two-finger pinch in (zoom out) or out (zoom in) around a point or an element center.',
+      inputSchema: withSerial(
+        timingSchema.extend({
+          direction: z.enum(['in', 'out']),
+          x: z.number().optional(),
+          y: z.number().optional(),
+          element: criteriaSchema.optional(),
+          startDistance: z.number().positive().optional(),
+          endDistance: z.number().positive().optional(),
+          angle: z.number().optional(),
+        })
+      ),
+    },
+    async ({
+      direction,
+      x,
+      y,
+      element,
+      startDistance,
+      endDistance,
+      angle,
+      duration,
+      steps,
+      method,
+      serial,
+    }: {
+      direction: 'in' | 'out';
+      x?: number;
+      y?: number;
+      element?: SearchCriteria;
+      startDistance?: number;
+      endDistance?: number;
+      angle?: number;
+      duration?: number;
+      steps?: number;
+      method?: GestureMethod;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const { center, anchor } = await resolveCenter({
+        x,
+        y,
+        element,
+        serial: resolvedSerial,
+      });
+      const wide = Math.round(shortSide(anchor, 750) * 0.8);
+      const narrow = Math.round(wide * 0.25);
+      const from = startDistance ?? (direction === 'in' ? wide : narrow);
+      const to = endDistance ?? (direction === 'in' ? narrow : wide);
+      const used = await performGesture(
+        pinchPaths({ center, startDistance: from, endDistance: to, angle }),
+        { method, duration, steps, serial: resolvedSerial }
+      );
+      return ok(`Pinch ${direction} at (${center.x}, ${center.y}) via ${used}.`, {
+        direction,
+        center,
+        startDistance: from,
+        endDistance: to,
+        method: used,
+      });
+    }
+  );
+
+  server.registerTool(
+    'rotate',
+    {
+      title: 'Rotate',
+      description:
+        'Two-finger rotation by a number of degrees (positive is clockwise) around a point or an element center.',
+      inputSchema: withSerial(
+        timingSchema.extend({
+          degrees: z.number(),
+          x: z.number().optional(),
+          y: z.number().optional(),
+          element: criteriaSchema.optional(),
+          radius: z.number().positive().optional(),
+        })
+      ),
+    },
+    async ({
+      degrees,
+      x,
+      y,
+      element,
+      radius,
+      duration,
+      steps,
+      method,
+      serial,
+    }: {
+      degrees: number;
+      x?: number;
+      y?: number;
+      element?: SearchCriteria;
+      radius?: number;
+      duration?: number;
+      steps?: number;
+      method?: GestureMethod;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const { center, anchor } = await resolveCenter({
+        x,
+        y,
+        element,
+        serial: resolvedSerial,
+      });
+      const fingerRadius = radius ?? Math.round(shortSide(anchor, 600) * 0.3);
+      const used = await performGesture(
+        rotatePaths({ center, radius: fingerRadius, degrees }),
+        { method, duration, steps, serial: resolvedSerial }
+      );
+      return ok(`Rotated ${degrees}° at (${center.x}, ${center.y}) via ${used}.`, {
+        degrees,
+        center,
+        radius: fingerRadius,
+        method: used,
+      });
+    }
+  );
+
+  server.registerTool(
+    'drag',
+    {
+      title: 'Drag',
+      description:
+        'Long-press, move and release: drag from a point or element to another point or element.',
+      inputSchema: withSerial(
+        timingSchema.extend({
+          from: pointSchema.optional(),
+          fromElement: criteriaSchema.optional(),
+          to: pointSchema.optional(),
+          toElement: criteriaSchema.optional(),
+          holdMs: z.number().nonnegative().optional(),
+        })
+      ),
+    },
+    async ({
+      from,
+      fromElement,
+      to,
+      toElement,
+      holdMs = 600,
+      duration = 500,
+      steps,
+      method,
+      serial,
+    }: {
+      from?: Point;
+      fromElement?: SearchCriteria;
+      to?: Point;
+      toElement?: SearchCriteria;
+      holdMs?: number;
+      duration?: number;
+      steps?: number;
+      method?: GestureMethod;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const start = fromElement
+        ? (await resolveAnchor(fromElement, resolvedSerial)).center
+        : from;
+      const end = toElement
+        ? (await resolveAnchor(toElement, resolvedSerial)).center
+        : to;
+      if (!start) throw new Error('Pass from or fromElement.');
+      if (!end) throw new Error('Pass to or toElement.');
+      const used = await performGesture([[start, end]], {
+        method,
+        holdMs,
+        duration,
+        steps,
+        serial: resolvedSerial,
+      });
+      return ok(
+        `Dragged from (${start.x}, ${start.y}) to (${end.x}, ${end.y}) via ${used}.`,
+        { from: start, to: end, holdMs, method: used }
+      );
+    }
+  );
+
+  server.registerTool(
+    'multiTouch',
+    {
+      title: 'Multi-touch',
+      description:
+        'Play one path per pointer at the same time. With element, points are offsets from its center.',
+      inputSchema: withSerial(
+        timingSchema.extend({
+          paths: z.array(z.array(pointSchema).min(1)).min(1).max(10),
+          element: criteriaSchema.optional(),
+          holdMs: z.number().nonnegative().optional(),
+        })
+      ),
+    },
+    async ({
+      paths,
+      element,
+      holdMs,
+      duration,
+      steps,
+      method,
+      serial,
+    }: {
+      paths: Point[][];
+      element?: SearchCriteria;
+      holdMs?: number;
+      duration?: number;
+      steps?: number;
+      method?: GestureMethod;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const origin = element
+        ? (await resolveAnchor(element, resolvedSerial)).center
+        : { x: 0, y: 0 };
+      const absolute = paths.map((path) =>
+        path.map((point) => ({ x: origin.x + point.x, y: origin.y + point.y }))
+      );
+      const used = await performGesture(absolute, {
+        method,
+        holdMs,
+        duration,
+        steps,
+        serial: resolvedSerial,
+      });
+      return ok(`Played ${paths.length} pointer path(s) via ${used}.`, {
+        pointers: paths.length,
+        paths: absolute,
+        method: used,
+      });
+    }
+  );
+
+  server.registerTool(
+    'swipeElement',
+    {
+      title: 'Swipe element',
+      description:
+        'Swipe across an element: direction is the way the finger moves, distance is a percentage of the element size, and both ends stay inside a safe margin from the screen edges.',
+      inputSchema: withSerial(
+        criteriaSchema.extend({
+          direction: z.enum(['up', 'down', 'left', 'right']),
+          percent: z.number().positive().max(100).optional(),
+          speed: speedSchema.optional(),
+          safeMargin: z.number().nonnegative().optional(),
+          index: z.number().int().nonnegative().optional(),
+        })
+      ),
+    },
+    async ({
+      direction,
+      percent,
+      speed = 'normal',
+      safeMargin = DEFAULT_SAFE_MARGIN,
+      index,
+      serial,
+      ...criteria
+    }: SearchCriteria & {
+      direction: SwipeDirection;
+      percent?: number;
+      speed?: keyof typeof SWIPE_SPEEDS | number;
+      safeMargin?: number;
+      index?: number;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const [elements, screen] = await Promise.all([
+        fetchUiElements(resolvedSerial),
+        getScreenSize(resolvedSerial),
+      ]);
+      const matches = findElements(elements, buildCriteria(criteria)).filter(
+        hasValidBounds
+      );
+      const element = matches[index ?? 0];
+      if (!element) {
+        throw new Error(
+          matches.length === 0
+            ? 'No element with valid bounds matched the criteria.'
+            : `Only ${matches.length} element(s) matched; index ${index} is out of range.`
+        );
+      }
+
+      const coordinates = elementSwipe(element.bounds, direction, {
+        percent,
+        margin: safeMargin,
+        screen,
+      });
+      const { x1, y1, x2, y2 } = coordinates;
+      if (x1 === x2 && y1 === y2) {
+        throw new Error(
+          'The swipe collapses to a single point inside the safe margin; lower safeMargin or raise percent.'
+        );
+      }
+      const duration = swipeDuration(coordinates, speed);
+      await adbShell(`input swipe ${x1} ${y1} ${x2} ${y2} ${duration}`, {
+        serial: resolvedSerial,
+      });
+      return ok(
+        `Swiped ${direction} from (${x1}, ${y1}) to (${x2}, ${y2}) in ${duration}ms.`,
+        { element, direction, x1, y1, x2, y2, duration, screen }
+      );
+    }
+  );
+}
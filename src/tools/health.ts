@@ -0,0 +1,259 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell, resolveAdbSerial } from '../adb.js';
+import {
+  detectCrashes,
+  detectErrorOverlay,
+  parseForegroundActivity,
+  type CrashEvent,
+  type ErrorOverlay,
+} from '../health.js';
+import { getDeviceEpoch, getPackagePids, readLogcat } from './logcat.js';
+import {
+  errorMessage,
+  normalizeSerial,
+  ok,
+  toText,
+  withSerial,
+} from './shared.js';
+import { fetchUiElements } from './ui.js';
+
+export type HealthReport = {
+  packageName: string;
+  healthy: boolean;
+  running: boolean;
+  pids: number[];
+  inForeground: boolean;
+  foregroundPackage: string | null;
+  foregroundActivity: string | null;
+  crashes: CrashEvent[];
+  overlay: ErrorOverlay | null;
+  errors: string[];
+};
+
+type HealthMonitor = {
+  packageName: string;
+  includeUi: boolean;
+};
+
+const DEFAULT_SINCE_SECONDS = 120;
+const checkCursors = new Map<string, number>();
+let healthMonitor: HealthMonitor | null = null;
+
+export async function getForegroundActivity(serial?: string) {
+  const { stdout } = await adbShell('dumpsys activity activities', { serial });
+  return parseForegroundActivity(toText(stdout));
+}
+
+export async function checkAppHealth({
+  packageName,
+  serial,
+  sinceSeconds,
+  sinceLastCheck = false,
+  includeUi = true,
+}: {
+  packageName: string;
+  serial?: string;
+  sinceSeconds?: number;
+  sinceLastCheck?: boolean;
+  includeUi?: boolean;
+}): Promise<HealthReport> {
+  const errors: string[] = [];
+  const deviceKey = serial ?? (await resolveAdbSerial()) ?? '';
+  const cursorKey = `${deviceKey}:${packageName}`;
+
+  let crashes: CrashEvent[] = [];
+  try {
+    const deviceEpoch = await getDeviceEpoch(serial);
+    const previous = sinceLastCheck ? checkCursors.get(cursorKey) : undefined;
+    const since =
+      previous ?? deviceEpoch - (sinceSeconds ?? DEFAULT_SINCE_SECONDS);
+    const entries = await readLogcat({
+      serial,
+      since,
+      buffers: ['main', 'system', 'crash'],
+    });
+    const fresh = entries.filter((entry) => entry.epoch > since);
+    crashes = detectCrashes(fresh, packageName);
+    const lastEpoch = fresh[fresh.length - 1]?.epoch ?? 0;
+    checkCursors.set(cursorKey, Math.max(deviceEpoch, lastEpoch));
+  } catch (error) {
+    errors.push(`logcat: ${errorMessage(error)}`);
+  }
+
+  const pids = await getPackagePids(packageName, serial);
+
+  let foregroundPackage: string | null = null;
+  let foregroundActivity: string | null = null;
+  try {
+    const foreground = await getForegroundActivity(serial);
+    foregroundPackage = foreground?.packageName ?? null;
+    foregroundActivity = foreground?.activity ?? null;
+  } catch (error) {
+    errors.push(`foreground: ${errorMessage(error)}`);
+  }
+
+  let overlay: ErrorOverlay | null = null;
+  if (includeUi) {
+    try {
+      overlay = detectErrorOverlay(await fetchUiElements(serial));
+    } catch (error) {
+      errors.push(`ui: ${errorMessage(error)}`);
+    }
+  }
+
+  const inForeground = foregroundPackage === packageName;
+  return {
+    packageName,
+    healthy:
+      crashes.length === 0 && pids.length > 0 && inForeground && !overlay,
+    running: pids.length > 0,
+    pids,
+    inForeground,
+    foregroundPackage,
+    foregroundActivity,
+    crashes,
+    overlay,
+    errors,
+  };
+}
+
+function describeHealth(report: HealthReport) {
+  if (report.healthy) return `${report.packageName} is healthy.`;
+  const problems: string[] = [];
+  if (report.crashes.length > 0) {
+    const last = report.crashes[report.crashes.length - 1];
+    problems.push(
+      `${report.crashes.length} ${last.type} event(s): ${last.message}`
+    );
+  }
+  if (!report.running) problems.push('process is not running');
+  if (report.running && !report.inForeground) {
+    problems.push(
+      `not in foreground (${report.foregroundPackage ?? 'unknown'})`
+    );
+  }
+  if (report.overlay) {
+    problems.push(`${report.overlay.title}: ${report.overlay.message}`);
+  }
+  return `${report.packageName} is unhealthy: ${problems.join('; ')}.`;
+}
+
+function summarizeHealth(report: HealthReport) {
+  const last = report.crashes[report.crashes.length - 1];
+  return {
+    packageName: report.packageName,
+    healthy: report.healthy,
+    running: report.running,
+    inForeground: report.inForeground,
+    foregroundPackage: report.foregroundPackage,
+    crashCount: report.crashes.length,
+    lastCrash: last ? { type: last.type, message: last.message } : null,
+    overlay: report.overlay
+      ? { title: report.overlay.title, message: report.overlay.message }
+      : null,
+  };
+}
+
+export async function withHealthSummary<
+  T extends {
+    content: Array<{ type: 'text'; text: string }>;
+    structuredContent: Record<string, unknown>;
+  },
+>(result: T, serial?: string): Promise<T> {
+  if (!healthMonitor) return result;
+  const report = await checkAppHealth({
+    packageName: healthMonitor.packageName,
+    serial,
+    sinceLastCheck: true,
+    includeUi: healthMonitor.includeUi,
+  });
+  return {
+    ...result,
+    content: [
+      ...result.content,
+      { type: 'text', text: describeHealth(report) },
+    ],
+    structuredContent: {
+      ...result.structuredContent,
+      health: summarizeHealth(report),
+    },
+  };
+}
+
+export function registerHealthTools(server: McpServer) {
+  server.registerTool(
+    'checkAppHealth',
+    {
+      title: 'Check app health',
+      description:
+        'Check an app for crashes, ANRs and native signals in logcat, whether it is in the foreground, and red-box/LogBox overlays.',
+      inputSchema: withSerial(
+        z.object({
+          packageName: z.string(),
+          sinceSeconds: z.number().positive().optional(),
+          sinceLastCheck: z.boolean().optional(),
+          includeUi: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      packageName,
+      sinceSeconds,
+      sinceLastCheck,
+      includeUi,
+      serial,
+    }: {
+      packageName: string;
+      sinceSeconds?: number;
+      sinceLastCheck?: boolean;
+      includeUi?: boolean;
+      serial?: string;
+    }) => {
+      const report = await checkAppHealth({
+        packageName,
+        serial: normalizeSerial(serial),
+        sinceSeconds,
+        sinceLastCheck,
+        includeUi,
+      });
+      return ok(describeHealth(report), report);
+    }
+  );
+
+  server.registerTool(
+    'configureHealthCheck',
+    {
+      title: 'Configure health check',
+      description:
+        'Opt in to attaching an app health summary to tapElement, inputText and swipe results.',
+      inputSchema: z.object({
+        enabled: z.boolean(),
+        packageName: z.string().optional(),
+        includeUi: z.boolean().optional(),
+      }),
+    },
+    async ({
+      enabled,
+      packageName,
+      includeUi,
+    }: {
+      enabled: boolean;
+      packageName?: string;
+      includeUi?: boolean;
+    }) => {
+      if (!enabled) {
+        healthMonitor = null;
+        return ok('Health check disabled.', { enabled: false });
+      }
+      if (!packageName) {
+        throw new Error('packageName is required to enable health checks.');
+      }
+      healthMonitor = { packageName, includeUi: includeUi ?? true };
+      return ok(`Health check enabled for ${packageName}.`, {
+        enabled: true,
+        ...healthMonitor,
+      });
+    }
+  );
+}
@@ -0,0 +1,120 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell } from '../adb.js';
+import {
+  buildBroadcastCommand,
+  buildStartActivityCommand,
+  findAmError,
+  parseBroadcastResult,
+  parseLaunchTiming,
+  type IntentSpec,
+} from '../intent.js';
+import { normalizeSerial, ok, toText, withSerial } from './shared.js';
+
+const extraSchema = z.discriminatedUnion('type', [
+  z.object({ key: z.string(), type: z.literal('string'), value: z.string() }),
+  z.object({ key: z.string(), type: z.literal('int'), value: z.number().int() }),
+  z.object({
+    key: z.string(),
+    type: z.literal('long'),
+    value: z.union([z.number().int(), z.string().regex(/^-?\d+$/)]),
+  }),
+  z.object({ key: z.string(), type: z.literal('float'), value: z.number() }),
+  z.object({ key: z.string(), type: z.literal('bool'), value: z.boolean() }),
+  z.object({
+    key: z.string(),
+    type: z.literal('stringArray'),
+    value: z.array(z.string()),
+  }),
+]);
+
+const intentSchema = z.object({
+  action: z.string().optional(),
+  data: z.string().optional(),
+  mimeType: z.string().optional(),
+  component: z.string().optional(),
+  packageName: z.string().optional(),
+  categories: z.array(z.string()).optional(),
+  flags: z.array(z.union([z.string(), z.number().int()])).optional(),
+  extras: z.array(extraSchema).optional(),
+});
+
+export function registerIntentTools(server: McpServer) {
+  server.registerTool(
+    'startActivity',
+    {
+      title: 'Start activity',
+      description:
+        'Start an activity with am start from an action, data URI, component, categories, flags and typed extras.',
+      inputSchema: withSerial(
+        intentSchema.extend({
+          wait: z.boolean().optional(),
+          forceStop: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      wait,
+      forceStop,
+      serial,
+      ...spec
+    }: IntentSpec & {
+      wait?: boolean;
+      forceStop?: boolean;
+      serial?: string;
+    }) => {
+      const shouldWait = wait ?? true;
+      const command = buildStartActivityCommand(spec, {
+        wait: shouldWait,
+        forceStop,
+      });
+      const { stdout } = await adbShell(command, {
+        serial: normalizeSerial(serial),
+      });
+      const output = toText(stdout).trim();
+      const error = findAmError(output);
+      if (error) {
+        throw new Error(`am start failed: ${error}`);
+      }
+      const timing = shouldWait ? parseLaunchTiming(output) : null;
+      const text = timing?.totalTime
+        ? `Activity started in ${timing.totalTime}ms.`
+        : 'Activity started.';
+      return ok(text, { command, timing, output });
+    }
+  );
+
+  server.registerTool(
+    'sendBroadcast',
+    {
+      title: 'Send broadcast',
+      description:
+        'Send a broadcast with am broadcast from an action, data URI, component, categories, flags and typed extras.',
+      inputSchema: withSerial(
+        intentSchema.extend({
+          receiverPermission: z.string().optional(),
+        })
+      ),
+    },
+    async ({
+      receiverPermission,
+      serial,
+      ...spec
+    }: IntentSpec & { receiverPermission?: string; serial?: string }) => {
+      const command = buildBroadcastCommand(spec, { receiverPermission });
+      const { stdout } = await adbShell(command, {
+        serial: normalizeSerial(serial),
+      });
+      const output = toText(stdout).trim();
+      const error = findAmError(output);
+      if (error) {
+        throw new Error(`am broadcast failed: ${error}`);
+      }
+      const result = parseBroadcastResult(output);
+      const text = result.completed
+        ? `Broadcast completed with result ${result.resultCode}.`
+        : 'Broadcast sent.';
+      return ok(text, { command, ...result, output });
+    }
+  );
+}
@@ -0,0 +1,183 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell, resolveAdbSerial } from '../adb.js';
+import {
+  applyLogCursor,
+  filterLogEntries,
+  formatLogTime,
+  parseLogcat,
+  type LogCursor,
+  type LogPriority,
+} from '../logcat.js';
+import { shellQuote } from '../shell.js';
+import {
+  errorMessage,
+  normalizeSerial,
+  ok,
+  toText,
+  withSerial,
+} from './shared.js';
+
+const cursors = new Map<string, LogCursor>();
+
+export async function getPackagePids(packageName: string, serial?: string) {
+  try {
+    const { stdout } = await adbShell(`pidof ${shellQuote(packageName)}`, {
+      serial,
+    });
+    return toText(stdout)
+      .trim()
+      .split(/\s+/)
+      .map((value) => Number.parseInt(value, 10))
+      .filter((pid) => Number.isInteger(pid));
+  } catch {
+    // pidof exits non-zero when the process is not running.
+    return [];
+  }
+}
+
+export async function getDeviceEpoch(serial?: string) {
+  const { stdout } = await adbShell('date +%s', { serial });
+  const epoch = Number.parseInt(toText(stdout).trim(), 10);
+  if (!Number.isFinite(epoch)) {
+    throw new Error(`Unexpected device date output: ${toText(stdout).trim()}`);
+  }
+  return epoch;
+}
+
+export async function readLogcat({
+  serial,
+  since,
+  buffers,
+}: {
+  serial?: string;
+  since?: number;
+  buffers?: string[];
+}) {
+  const args = ['logcat', '-d', '-v', 'threadtime', '-v', 'epoch'];
+  for (const buffer of buffers ?? []) {
+    args.push('-b', shellQuote(buffer));
+  }
+  if (since !== undefined) {
+    args.push('-t', formatLogTime(since));
+  }
+  const { stdout } = await adbShell(args.join(' '), { serial });
+  return parseLogcat(toText(stdout));
+}
+
+export async function clearLogcat(serial?: string, buffers?: string[]) {
+  const args = ['logcat'];
+  for (const buffer of buffers ?? []) {
+    args.push('-b', shellQuote(buffer));
+  }
+  args.push('-c');
+  await adbShell(args.join(' '), { serial });
+}
+
+export function registerLogcatTools(server: McpServer) {
+  server.registerTool(
+    'logcat',
+    {
+      title: 'Logcat',
+      description:
+        'Read recent logcat entries parsed into level/tag/pid/message, filtered by package, tag, priority, regex or time.',
+      inputSchema: withSerial(
+        z.object({
+          clear: z.boolean().optional(),
+          packageName: z.string().optional(),
+          tag: z.string().optional(),
+          minPriority: z.enum(['V', 'D', 'I', 'W', 'E', 'F']).optional(),
+          pattern: z.string().optional(),
+          sinceSeconds: z.number().positive().optional(),
+          sinceLastCall: z.boolean().optional(),
+          buffers: z
+            .array(z.enum(['main', 'system', 'crash', 'events', 'radio']))
+            .optional(),
+          limit: z.number().int().positive().optional(),
+        })
+      ),
+    },
+    async ({
+      clear,
+      packageName,
+      tag,
+      minPriority,
+      pattern,
+      sinceSeconds,
+      sinceLastCall,
+      buffers,
+      limit,
+      serial,
+    }: {
+      clear?: boolean;
+      packageName?: string;
+      tag?: string;
+      minPriority?: LogPriority;
+      pattern?: string;
+      sinceSeconds?: number;
+      sinceLastCall?: boolean;
+      buffers?: string[];
+      limit?: number;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const cursorKey = resolvedSerial ?? (await resolveAdbSerial()) ?? '';
+      if (pattern) {
+        try {
+          new RegExp(pattern);
+        } catch (error) {
+          throw new Error(`Invalid pattern: ${errorMessage(error)}`);
+        }
+      }
+
+      if (clear) {
+        await clearLogcat(resolvedSerial, buffers);
+        cursors.delete(cursorKey);
+      }
+
+      let pids: number[] | undefined;
+      if (packageName) {
+        pids = await getPackagePids(packageName, resolvedSerial);
+        if (pids.length === 0) {
+          return ok(`${packageName} is not running.`, {
+            entries: [],
+            count: 0,
+            truncated: false,
+            packageName,
+            pids,
+          });
+        }
+      }
+
+      const previous = sinceLastCall ? cursors.get(cursorKey) : undefined;
+      let since = previous?.epoch;
+      if (sinceSeconds !== undefined) {
+        const deviceEpoch = await getDeviceEpoch(resolvedSerial);
+        const windowStart = deviceEpoch - sinceSeconds;
+        since =
+          since === undefined ? windowStart : Math.max(since, windowStart);
+      }
+
+      const raw = await readLogcat({ serial: resolvedSerial, since, buffers });
+      const { entries: fresh, cursor } = applyLogCursor(raw, previous);
+      if (cursor) cursors.set(cursorKey, cursor);
+
+      const filtered = filterLogEntries(fresh, {
+        pids,
+        tag,
+        minPriority,
+        pattern,
+      });
+      const maxEntries = limit ?? 200;
+      const entries = filtered.slice(-maxEntries);
+      return ok(`Fetched ${entries.length} log entries.`, {
+        entries,
+        count: entries.length,
+        truncated: filtered.length > entries.length,
+        packageName: packageName ?? null,
+        pids: pids ?? null,
+        cursor: cursor ? formatLogTime(cursor.epoch) : null,
+      });
+    }
+  );
+}
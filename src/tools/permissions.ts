@@ -0,0 +1,225 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell } from '../adb.js';
+import {
+  chooseDialogButton,
+  detectPermissionDialog,
+  normalizePermission,
+  parseAppOps,
+  type DialogPolicy,
+} from '../permissions.js';
+import { shellQuote } from '../shell.js';
+import { getPackageInfo } from './apps.js';
+import { normalizeSerial, ok, sleep, toText, withSerial } from './shared.js';
+import { fetchUiElements } from './ui.js';
+
+export type HandledDialog = {
+  packageName: string;
+  message: string;
+  policy: DialogPolicy;
+  button: string;
+  buttonText: string;
+};
+
+type DialogWatcher = {
+  policy: DialogPolicy;
+  maxDialogs: number;
+};
+
+const policySchema = z.enum(['allow', 'allowWhileUsing', 'deny']);
+
+const permissionSchema = z.object({
+  packageName: z.string(),
+  permission: z.string(),
+});
+
+let dialogWatcher: DialogWatcher | null = null;
+
+// Answers consecutive permission dialogs (apps often ask for several at once).
+export async function answerPermissionDialogs(serial?: string) {
+  const handled: HandledDialog[] = [];
+  if (!dialogWatcher) return handled;
+  const { policy, maxDialogs } = dialogWatcher;
+  while (handled.length < maxDialogs) {
+    const dialog = detectPermissionDialog(await fetchUiElements(serial));
+    if (!dialog) break;
+    const choice = chooseDialogButton(dialog, policy);
+    if (!choice) break;
+    const { x, y } = choice.element.center;
+    await adbShell(`input tap ${x} ${y}`, { serial });
+    handled.push({
+      packageName: dialog.packageName,
+      message: dialog.message,
+      policy,
+      button: choice.button,
+      buttonText: choice.element.text,
+    });
+    await sleep(500);
+  }
+  return handled;
+}
+
+// Clears permission prompts before the wrapped action runs and reports them
+// in its result.
+export function withPermissionDialogs<
+  Args extends { serial?: string },
+  Result extends {
+    content: Array<{ type: 'text'; text: string }>;
+    structuredContent: Record<string, unknown>;
+  },
+>(handler: (args: Args) => Promise<Result>) {
+  return async (args: Args): Promise<Result> => {
+    if (!dialogWatcher) return handler(args);
+    const handled = await answerPermissionDialogs(normalizeSerial(args.serial));
+    const result = await handler(args);
+    const notes = handled.map(
+      (dialog) =>
+        `Answered permission dialog "${dialog.message}" with ${dialog.buttonText || dialog.button}.`
+    );
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        ...notes.map((text) => ({ type: 'text' as const, text })),
+      ],
+      structuredContent: {
+        ...result.structuredContent,
+        permissionDialogs: handled,
+      },
+    };
+  };
+}
+
+async function runPermissionCommand(command: string, serial?: string) {
+  // pm grant/revoke print nothing on success.
+  const { stdout } = await adbShell(`${command} 2>&1`, { serial });
+  const output = toText(stdout).trim();
+  if (output) throw new Error(`${command} failed: ${output.split('\n')[0]}`);
+}
+
+export function registerPermissionTools(server: McpServer) {
+  server.registerTool(
+    'grantPermission',
+    {
+      title: 'Grant permission',
+      description:
+        'Grant a runtime permission with pm grant (short names like CAMERA expand to android.permission.CAMERA).',
+      inputSchema: withSerial(permissionSchema),
+    },
+    async ({
+      packageName,
+      permission,
+      serial,
+    }: {
+      packageName: string;
+      permission: string;
+      serial?: string;
+    }) => {
+      const name = normalizePermission(permission);
+      await runPermissionCommand(
+        `pm grant ${shellQuote(packageName)} ${shellQuote(name)}`,
+        normalizeSerial(serial)
+      );
+      return ok(`Granted ${name} to ${packageName}.`, {
+        packageName,
+        permission: name,
+        granted: true,
+      });
+    }
+  );
+
+  server.registerTool(
+    'revokePermission',
+    {
+      title: 'Revoke permission',
+      description:
+        'Revoke a runtime permission with pm revoke (the app process is killed by the system).',
+      inputSchema: withSerial(permissionSchema),
+    },
+    async ({
+      packageName,
+      permission,
+      serial,
+    }: {
+      packageName: string;
+      permission: string;
+      serial?: string;
+    }) => {
+      const name = normalizePermission(permission);
+      await runPermissionCommand(
+        `pm revoke ${shellQuote(packageName)} ${shellQuote(name)}`,
+        normalizeSerial(serial)
+      );
+      return ok(`Revoked ${name} from ${packageName}.`, {
+        packageName,
+        permission: name,
+        granted: false,
+      });
+    }
+  );
+
+  server.registerTool(
+    'listPermissions',
+    {
+      title: 'List permissions',
+      description:
+        'List requested, granted and denied permissions of an app from dumpsys package, plus its app-op modes from appops.',
+      inputSchema: withSerial(z.object({ packageName: z.string() })),
+    },
+    async ({ packageName, serial }: { packageName: string; serial?: string }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const info = await getPackageInfo(packageName, resolvedSerial);
+      if (!info.installed) throw new Error(`${packageName} is not installed.`);
+      const { stdout } = await adbShell(
+        `appops get ${shellQuote(packageName)}`,
+        { serial: resolvedSerial }
+      );
+      return ok(
+        `${packageName}: ${info.grantedPermissions.length} granted, ${info.deniedPermissions.length} denied.`,
+        {
+          packageName,
+          requested: info.requestedPermissions,
+          granted: info.grantedPermissions,
+          denied: info.deniedPermissions,
+          appOps: parseAppOps(toText(stdout)),
+        }
+      );
+    }
+  );
+
+  server.registerTool(
+    'configurePermissionDialogs',
+    {
+      title: 'Configure permission dialogs',
+      description:
+        'Opt in to answering system permission dialogs before tapElement and inputText with a policy: allow, allowWhileUsing or deny. Handled dialogs are listed in the tool result.',
+      inputSchema: z.object({
+        enabled: z.boolean(),
+        policy: policySchema.optional(),
+        maxDialogs: z.number().int().positive().optional(),
+      }),
+    },
+    async ({
+      enabled,
+      policy,
+      maxDialogs,
+    }: {
+      enabled: boolean;
+      policy?: DialogPolicy;
+      maxDialogs?: number;
+    }) => {
+      if (!enabled) {
+        dialogWatcher = null;
+        return ok('Permission dialog handling disabled.', { enabled: false });
+      }
+      if (!policy) {
+        throw new Error('policy is required to enable permission dialog handling.');
+      }
+      dialogWatcher = { policy, maxDialogs: maxDialogs ?? 5 };
+      return ok(`Permission dialogs will be answered with ${policy}.`, {
+        enabled: true,
+        ...dialogWatcher,
+      });
+    }
+  );
+}
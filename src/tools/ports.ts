@@ -0,0 +1,182 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbExec, resolveAdbSerial } from '../adb.js';
+import {
+  parsePortMappings,
+  toSocketSpec,
+  type PortMapping,
+  type PortMappingType,
+} from '../ports.js';
+import { list, normalizeSerial, ok, toText, withSerial } from './shared.js';
+
+const portSchema = z.union([z.number().int().positive(), z.string()]);
+
+export async function listPortMappings(
+  serial?: string,
+  types: PortMappingType[] = ['reverse', 'forward']
+) {
+  const targetSerial = serial ?? (await resolveAdbSerial());
+  const mappings: PortMapping[] = [];
+  for (const type of types) {
+    const { stdout } = await adbExec([type, '--list'], { serial });
+    mappings.push(...parsePortMappings(toText(stdout), type));
+  }
+  // `forward --list` reports every device; keep the ones for this serial.
+  return mappings.filter(
+    (mapping) => mapping.type === 'reverse' || mapping.transport === targetSerial
+  );
+}
+
+export async function reversePorts(ports: number[], serial?: string) {
+  const results = [];
+  for (const port of ports) {
+    const spec = toSocketSpec(port);
+    await adbExec(['reverse', spec, spec], { serial });
+    results.push({ device: spec, host: spec });
+  }
+  return results;
+}
+
+export function registerPortTools(server: McpServer) {
+  server.registerTool(
+    'reversePort',
+    {
+      title: 'Reverse port',
+      description:
+        'Expose a host port on the device with adb reverse (e.g. Metro on tcp:8081).',
+      inputSchema: withSerial(
+        z.object({
+          devicePort: portSchema,
+          hostPort: portSchema.optional(),
+        })
+      ),
+    },
+    async ({
+      devicePort,
+      hostPort,
+      serial,
+    }: {
+      devicePort: number | string;
+      hostPort?: number | string;
+      serial?: string;
+    }) => {
+      const device = toSocketSpec(devicePort);
+      const host = toSocketSpec(hostPort ?? devicePort);
+      await adbExec(['reverse', device, host], {
+        serial: normalizeSerial(serial),
+      });
+      return ok(`Reversed ${device} -> ${host}.`, {
+        type: 'reverse',
+        device,
+        host,
+      });
+    }
+  );
+
+  server.registerTool(
+    'forwardPort',
+    {
+      title: 'Forward port',
+      description: 'Expose a device port on the host with adb forward.',
+      inputSchema: withSerial(
+        z.object({
+          hostPort: portSchema,
+          devicePort: portSchema.optional(),
+        })
+      ),
+    },
+    async ({
+      hostPort,
+      devicePort,
+      serial,
+    }: {
+      hostPort: number | string;
+      devicePort?: number | string;
+      serial?: string;
+    }) => {
+      const host = toSocketSpec(hostPort);
+      const device = toSocketSpec(devicePort ?? hostPort);
+      await adbExec(['forward', host, device], {
+        serial: normalizeSerial(serial),
+      });
+      return ok(`Forwarded ${host} -> ${device}.`, {
+        type: 'forward',
+        device,
+        host,
+      });
+    }
+  );
+
+  server.registerTool(
+    'listPortMappings',
+    {
+      title: 'List port mappings',
+      description: 'List adb reverse and forward port mappings.',
+      inputSchema: withSerial(
+        z.object({
+          type: z.enum(['reverse', 'forward']).optional(),
+        })
+      ),
+    },
+    async ({ type, serial }: { type?: PortMappingType; serial?: string }) => {
+      const items = await listPortMappings(
+        normalizeSerial(serial),
+        type ? [type] : undefined
+      );
+      return list('Port mappings fetched.', items);
+    }
+  );
+
+  server.registerTool(
+    'removePortMapping',
+    {
+      title: 'Remove port mapping',
+      description:
+        'Remove an adb reverse/forward mapping, or all mappings of that type for the device.',
+      inputSchema: withSerial(
+        z.object({
+          type: z.enum(['reverse', 'forward']),
+          port: portSchema.optional(),
+          all: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      type,
+      port,
+      all,
+      serial,
+    }: {
+      type: PortMappingType;
+      port?: number | string;
+      all?: boolean;
+      serial?: string;
+    }) => {
+      if (!all && port === undefined) {
+        throw new Error('Provide a port or set all to true.');
+      }
+      const resolvedSerial = normalizeSerial(serial);
+      if (all && type === 'reverse') {
+        await adbExec(['reverse', '--remove-all'], { serial: resolvedSerial });
+        return ok('Removed all reverse mappings.', { type, removed: 'all' });
+      }
+      if (all) {
+        // `forward --remove-all` clears every device's forwards, so remove
+        // this serial's listeners one by one.
+        const mappings = await listPortMappings(resolvedSerial, ['forward']);
+        for (const mapping of mappings) {
+          await adbExec(['forward', '--remove', mapping.host], {
+            serial: resolvedSerial,
+          });
+        }
+        return ok(`Removed ${mappings.length} forward mapping(s).`, {
+          type,
+          removed: mappings.map((mapping) => mapping.host),
+        });
+      }
+      const spec = toSocketSpec(port as number | string);
+      await adbExec([type, '--remove', spec], { serial: resolvedSerial });
+      return ok(`Removed ${type} mapping ${spec}.`, { type, removed: spec });
+    }
+  );
+}
@@ -0,0 +1,312 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import {
+  coordinateTapStep,
+  elementAtPoint,
+  parseScript,
+  scriptFormat,
+  serializeScript,
+  stepFailure,
+  summarizeElement,
+  type RecordedStep,
+} from '../recorder.js';
+import {
+  errorMessage,
+  normalizeSerial,
+  ok,
+  sleep,
+  withSerial,
+} from './shared.js';
+import { fetchUiElements } from './ui.js';
+
+type ToolResult = {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+type ToolArgs = { serial?: string } & Record<string, unknown>;
+
+type Recording = {
+  startedAt: string;
+  path?: string;
+  steps: RecordedStep[];
+};
+
+type ToolHandler = (args: ToolArgs) => Promise<ToolResult>;
+
+type ArgsSchema<Args> = z.ZodObject & z.ZodType<Args>;
+
+const replayHandlers = new Map<string, ToolHandler>();
+const replaySchemas = new Map<string, z.ZodObject>();
+let recording: Recording | null = null;
+
+function stepArgs(args: ToolArgs) {
+  const { serial: _serial, ...rest } = args;
+  return Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => value !== undefined)
+  );
+}
+
+function describeIssues(name: string, error: z.ZodError) {
+  const issues = error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+  return `Invalid arguments for ${name}: ${issues.join('; ')}`;
+}
+
+function parseArgs<Args>(name: string, schema: ArgsSchema<Args>, args: ToolArgs) {
+  const unknown = Object.keys(args).filter((key) => !(key in schema.shape));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown arguments for ${name}: ${unknown.join(', ')}`);
+  }
+  const parsed = schema.safeParse(args);
+  if (!parsed.success) throw new Error(describeIssues(name, parsed.error));
+  return parsed.data;
+}
+
+// Scripts and flows are files on disk, so their args go through the tool's
+// schema just like an MCP call would, and misspelled keys are rejected.
+function register<Args>(
+  name: string,
+  schema: ArgsSchema<Args>,
+  handler: (args: Args) => Promise<ToolResult>
+) {
+  replaySchemas.set(name, schema);
+  replayHandlers.set(name, async (args) => handler(parseArgs(name, schema, args)));
+}
+
+// Throws the same error the handler would, without running the tool.
+export function validateReplayArgs(name: string, args: ToolArgs) {
+  const schema = replaySchemas.get(name);
+  if (!schema) throw new Error(`Tool "${name}" cannot be replayed.`);
+  parseArgs(name, schema, args);
+}
+
+export function getReplayHandler(name: string) {
+  return replayHandlers.get(name);
+}
+
+// Makes a handler callable from replayScript and flows without recording it.
+export function replayable<
+  Args extends { serial?: string },
+  Result extends ToolResult,
+>(
+  name: string,
+  schema: ArgsSchema<Args>,
+  handler: (args: Args) => Promise<Result>
+) {
+  register(name, schema, handler);
+  return handler;
+}
+
+// Registers the handler for replayScript and, while a recording is active,
+// logs each successful call as a script step.
+export function recordable<
+  Args extends { serial?: string },
+  Result extends ToolResult,
+>(
+  name: string,
+  schema: ArgsSchema<Args>,
+  handler: (args: Args) => Promise<Result>,
+  toStep?: (args: Args) => Promise<RecordedStep>
+) {
+  register(name, schema, handler);
+  return async (args: Args) => {
+    if (!recording) return handler(args);
+    const step = toStep ? await toStep(args) : { tool: name, args: stepArgs(args) };
+    const result = await handler(args);
+    if (recording && !stepFailure(result)) recording.steps.push(step);
+    return result;
+  };
+}
+
+export async function recordCoordinateTap({
+  x,
+  y,
+  serial,
+}: {
+  x: number;
+  y: number;
+  serial?: string;
+}): Promise<RecordedStep> {
+  try {
+    const elements = await fetchUiElements(normalizeSerial(serial));
+    return coordinateTapStep(elements, x, y);
+  } catch {
+    return { tool: 'tap', args: { x, y }, coordinates: { x, y } };
+  }
+}
+
+export async function recordCoordinateLongPress(args: {
+  x: number;
+  y: number;
+  duration?: number;
+  serial?: string;
+}): Promise<RecordedStep> {
+  const { x, y } = args;
+  const step: RecordedStep = {
+    tool: 'longPress',
+    args: stepArgs(args),
+    coordinates: { x, y },
+  };
+  try {
+    const element = elementAtPoint(
+      await fetchUiElements(normalizeSerial(args.serial)),
+      x,
+      y
+    );
+    if (element) step.element = summarizeElement(element);
+  } catch {
+    // The element is informational; keep the raw coordinates.
+  }
+  return step;
+}
+
+function defaultScriptPath() {
+  return join(tmpdir(), `expo-android-recording-${Date.now()}.yaml`);
+}
+
+export function registerRecorderTools(server: McpServer) {
+  server.registerTool(
+    'startRecording',
+    {
+      title: 'Start recording',
+      description:
+        'Record tap, tapElement, longPress, inputText, swipe, keyEvent, openApp and waitForElement calls into a replayable script.',
+      inputSchema: z.object({
+        path: z.string().optional(),
+      }),
+    },
+    async ({ path }: { path?: string }) => {
+      if (recording) {
+        throw new Error(
+          'A recording is already in progress; call stopRecording first.'
+        );
+      }
+      recording = {
+        startedAt: new Date().toISOString(),
+        path: path ? resolve(path) : undefined,
+        steps: [],
+      };
+      return ok('Recording started.', {
+        recording: true,
+        startedAt: recording.startedAt,
+        path: recording.path ?? null,
+      });
+    }
+  );
+
+  server.registerTool(
+    'stopRecording',
+    {
+      title: 'Stop recording',
+      description:
+        'Stop recording and write the script to a .yaml/.yml or .json file.',
+      inputSchema: z.object({
+        path: z.string().optional(),
+      }),
+    },
+    async ({ path }: { path?: string }) => {
+      if (!recording) {
+        throw new Error('No recording in progress; call startRecording first.');
+      }
+      const { startedAt, steps } = recording;
+      const target = path ? resolve(path) : recording.path ?? defaultScriptPath();
+      const format = scriptFormat(target);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(
+        target,
+        serializeScript({ version: 1, recordedAt: startedAt, steps }, format)
+      );
+      recording = null;
+      return ok(`Saved ${steps.length} step(s) to ${target}.`, {
+        path: target,
+        format,
+        count: steps.length,
+        steps,
+      });
+    }
+  );
+
+  server.registerTool(
+    'replayScript',
+    {
+      title: 'Replay script',
+      description:
+        'Replay a script written by stopRecording and report the first failing step.',
+      inputSchema: withSerial(
+        z.object({
+          path: z.string(),
+          delayMs: z.number().nonnegative().optional(),
+          continueOnFailure: z.boolean().optional(),
+        })
+      ),
+    },
+    async ({
+      path,
+      delayMs = 300,
+      continueOnFailure = false,
+      serial,
+    }: {
+      path: string;
+      delayMs?: number;
+      continueOnFailure?: boolean;
+      serial?: string;
+    }) => {
+      const target = resolve(path);
+      const script = parseScript(
+        await readFile(target, 'utf8'),
+        scriptFormat(target)
+      );
+
+      const results: Array<{
+        step: number;
+        tool: string;
+        passed: boolean;
+        message: string;
+      }> = [];
+      for (const [index, step] of script.steps.entries()) {
+        if (index > 0 && delayMs > 0) await sleep(delayMs);
+        const handler = getReplayHandler(step.tool);
+        let failure: string | null;
+        let message = '';
+        if (!handler) {
+          failure = `Tool "${step.tool}" cannot be replayed.`;
+        } else {
+          try {
+            const result = await handler({ ...step.args, serial });
+            failure = stepFailure(result);
+            message =
+              result.content.find((item) => item.type === 'text')?.text ?? '';
+          } catch (error) {
+            failure = errorMessage(error);
+          }
+        }
+        results.push({
+          step: index + 1,
+          tool: step.tool,
+          passed: failure === null,
+          message: failure ?? message,
+        });
+        if (failure !== null && !continueOnFailure) break;
+      }
+
+      const firstFailure = results.find((result) => !result.passed) ?? null;
+      const text = firstFailure
+        ? `Replay failed at step ${firstFailure.step} (${firstFailure.tool}): ${firstFailure.message}`
+        : `Replayed ${results.length} step(s).`;
+      return ok(text, {
+        passed: firstFailure === null,
+        path: target,
+        total: script.steps.length,
+        executed: results.length,
+        failedStep: firstFailure,
+        steps: results,
+      });
+    }
+  );
+}
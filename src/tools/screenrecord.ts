@@ -0,0 +1,219 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { adbExec, adbShell, resolveAdbSerial } from '../adb.js';
+import {
+  buildRecordLoopScript,
+  buildStopScript,
+  localSegmentPaths,
+  parseSegmentList,
+  SCREENRECORD_MAX_SECONDS,
+  segmentCount,
+} from '../screenrecord.js';
+import {
+  errorMessage,
+  normalizeSerial,
+  ok,
+  sleep,
+  toText,
+  withSerial,
+} from './shared.js';
+
+type ActiveRecording = {
+  prefix: string;
+  loopPid: number;
+  startedAt: number;
+  segments: number;
+};
+
+const DEFAULT_MAX_DURATION_SECONDS = 1800;
+const PULL_TIMEOUT_MS = 120000;
+
+const recordings = new Map<string, ActiveRecording>();
+
+async function resolveRecordingSerial(serial?: string) {
+  const resolved = normalizeSerial(serial) ?? (await resolveAdbSerial());
+  if (!resolved) {
+    throw new Error('No device selected; pass serial or run setDevice.');
+  }
+  return resolved;
+}
+
+async function isRunning(pid: number, serial: string) {
+  const { stdout } = await adbShell(
+    `kill -0 ${pid} 2>/dev/null && echo running`,
+    { serial }
+  );
+  return toText(stdout).trim() === 'running';
+}
+
+async function readLog(prefix: string, serial: string) {
+  const { stdout } = await adbShell(`cat ${prefix}.log 2>/dev/null`, { serial });
+  return toText(stdout).trim();
+}
+
+export function registerScreenRecordTools(server: McpServer) {
+  server.registerTool(
+    'startScreenRecord',
+    {
+      title: 'Start screen recording',
+      description: `Start screenrecord on the device in the background. Sessions longer than timeLimit (max ${SCREENRECORD_MAX_SECONDS}s) are chained into segments until maxDuration (default ${DEFAULT_MAX_DURATION_SECONDS}s) or stopScreenRecord. One recording per device.`,
+      inputSchema: withSerial(
+        z.object({
+          size: z.string().optional(),
+          bitRate: z.number().int().positive().optional(),
+          timeLimit: z
+            .number()
+            .int()
+            .min(1)
+            .max(SCREENRECORD_MAX_SECONDS)
+            .optional(),
+          maxDuration: z.number().int().positive().optional(),
+        })
+      ),
+    },
+    async ({
+      size,
+      bitRate,
+      timeLimit = SCREENRECORD_MAX_SECONDS,
+      maxDuration = DEFAULT_MAX_DURATION_SECONDS,
+      serial,
+    }: {
+      size?: string;
+      bitRate?: number;
+      timeLimit?: number;
+      maxDuration?: number;
+      serial?: string;
+    }) => {
+      const resolvedSerial = await resolveRecordingSerial(serial);
+      if (recordings.has(resolvedSerial)) {
+        throw new Error(
+          `A screen recording is already running on ${resolvedSerial}; call stopScreenRecord first.`
+        );
+      }
+      const options = { size, bitRate, timeLimit, maxDuration };
+      const prefix = `/sdcard/expo-android-rec-${Date.now()}`;
+      const { stdout } = await adbShell(
+        buildRecordLoopScript(prefix, options),
+        { serial: resolvedSerial }
+      );
+      const loopPid = Number.parseInt(toText(stdout).trim(), 10);
+      if (!Number.isInteger(loopPid)) {
+        throw new Error(`Could not start screenrecord: ${toText(stdout).trim()}`);
+      }
+
+      // screenrecord exits right away on bad sizes or unsupported encoders.
+      await sleep(1000);
+      if (!(await isRunning(loopPid, resolvedSerial))) {
+        const log = await readLog(prefix, resolvedSerial);
+        await adbShell(`rm -f ${prefix}-*.mp4 ${prefix}.log`, {
+          serial: resolvedSerial,
+        });
+        throw new Error(`screenrecord exited immediately: ${log || 'no output'}`);
+      }
+
+      const recording: ActiveRecording = {
+        prefix,
+        loopPid,
+        startedAt: Date.now(),
+        segments: segmentCount(options),
+      };
+      recordings.set(resolvedSerial, recording);
+      return ok(`Screen recording started on ${resolvedSerial}.`, {
+        serial: resolvedSerial,
+        recording: true,
+        startedAt: new Date(recording.startedAt).toISOString(),
+        timeLimit,
+        maxDuration,
+        maxSegments: recording.segments,
+      });
+    }
+  );
+
+  server.registerTool(
+    'stopScreenRecord',
+    {
+      title: 'Stop screen recording',
+      description:
+        'Stop the screen recording on the device, pull every segment to path (default: temp dir) and delete them from /sdcard.',
+      inputSchema: withSerial(
+        z.object({
+          path: z.string().optional(),
+        })
+      ),
+    },
+    async ({ path, serial }: { path?: string; serial?: string }) => {
+      const resolvedSerial = await resolveRecordingSerial(serial);
+      const recording = recordings.get(resolvedSerial);
+      if (!recording) {
+        throw new Error(`No screen recording in progress on ${resolvedSerial}.`);
+      }
+      const { prefix, loopPid, startedAt } = recording;
+      const cleanUp = () =>
+        adbShell(`rm -f ${prefix}-*.mp4 ${prefix}.log`, {
+          serial: resolvedSerial,
+        });
+
+      const { stdout } = await adbShell(buildStopScript(loopPid), {
+        serial: resolvedSerial,
+      });
+      const segmentPid = Number.parseInt(toText(stdout).trim(), 10);
+      if (Number.isInteger(segmentPid)) {
+        // Give screenrecord time to write the moov atom after SIGINT.
+        for (let attempt = 0; attempt < 20; attempt += 1) {
+          if (!(await isRunning(segmentPid, resolvedSerial))) break;
+          await sleep(500);
+        }
+      }
+
+      const listing = await adbShell(`ls ${prefix}-*.mp4 2>/dev/null`, {
+        serial: resolvedSerial,
+      });
+      const remotePaths = parseSegmentList(toText(listing.stdout), prefix);
+      if (remotePaths.length === 0) {
+        const log = await readLog(prefix, resolvedSerial);
+        await cleanUp();
+        recordings.delete(resolvedSerial);
+        throw new Error(`Recording produced no video: ${log || 'no output'}`);
+      }
+
+      const target = path
+        ? resolve(path)
+        : join(
+            tmpdir(),
+            `expo-android-${resolvedSerial.replace(/[^\w.-]/g, '_')}-${startedAt}.mp4`
+          );
+      await mkdir(dirname(target), { recursive: true });
+      const localPaths = localSegmentPaths(target, remotePaths.length);
+      // Keep the segments and the session on a failed pull so that calling
+      // stopScreenRecord again retries the pull and then cleans up.
+      for (const [index, remotePath] of remotePaths.entries()) {
+        try {
+          await adbExec(['pull', remotePath, localPaths[index]], {
+            serial: resolvedSerial,
+            timeout: PULL_TIMEOUT_MS,
+          });
+        } catch (error) {
+          throw new Error(
+            `Could not pull ${remotePath}; call stopScreenRecord again to retry. ${errorMessage(error)}`
+          );
+        }
+      }
+      await cleanUp();
+      recordings.delete(resolvedSerial);
+
+      const durationMs = Date.now() - startedAt;
+      return ok(
+        `Saved ${localPaths.length} segment(s) from ${resolvedSerial}: ${localPaths.join(', ')}.`,
+        {
+          serial: resolvedSerial,
+          paths: localPaths,
+          segments: localPaths.length,
+          durationMs,
+        }
+      );
+    }
+  );
+}
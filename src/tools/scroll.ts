@@ -0,0 +1,248 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell } from '../adb.js';
+import {
+  collectPageItems,
+  containerSignature,
+  isDescendantOf,
+  isFullyVisible,
+  mergeCollected,
+  scrollSwipe,
+  type CollectedItem,
+  type ScrollDirection,
+} from '../scroll.js';
+import { findElements, type FindCriteria, type UIElement } from '../ui-parser.js';
+import {
+  buildCriteria,
+  criteriaSchema,
+  relationSchema,
+  type SearchCriteria,
+} from './criteria.js';
+import { replayable } from './recorder.js';
+import { normalizeSerial, ok, sleep, withSerial } from './shared.js';
+import { fetchUiElements } from './ui.js';
+
+const containerSchema = relationSchema.extend({
+  selector: z.string().optional(),
+});
+
+const directionSchema = z.enum(['up', 'down', 'left', 'right']);
+
+function hasCriteria(criteria: SearchCriteria) {
+  return Object.values(criteria).some((value) => value !== undefined);
+}
+
+function describeStop(reason: 'end-of-list' | 'max-swipes' | 'max-items') {
+  if (reason === 'end-of-list') return 'reached the end of the list';
+  return reason === 'max-swipes' ? 'hit maxSwipes' : 'hit maxItems';
+}
+
+export function findContainer(elements: UIElement[], container?: FindCriteria) {
+  const match = container
+    ? findElements(elements, container)[0]
+    : elements.find((element) => element.scrollable);
+  if (!match) {
+    throw new Error(
+      container
+        ? 'No container matched the container criteria.'
+        : 'No scrollable container found on screen.'
+    );
+  }
+  return match;
+}
+
+export async function swipeContainer(
+  container: UIElement,
+  direction: ScrollDirection,
+  {
+    duration = 300,
+    fraction,
+    serial,
+  }: { duration?: number; fraction?: number; serial?: string }
+) {
+  const { x1, y1, x2, y2 } = scrollSwipe(container.bounds, direction, fraction);
+  await adbShell(`input swipe ${x1} ${y1} ${x2} ${y2} ${duration}`, { serial });
+}
+
+export function registerScrollTools(server: McpServer) {
+  const scrollToElementSchema = withSerial(
+    criteriaSchema.extend({
+      container: containerSchema.optional(),
+      direction: directionSchema.optional(),
+      maxSwipes: z.number().int().nonnegative().optional(),
+      duration: z.number().optional(),
+      settleMs: z.number().nonnegative().optional(),
+    })
+  );
+  server.registerTool(
+    'scrollToElement',
+    {
+      title: 'Scroll to element',
+      description:
+        'Swipe inside a scrollable container until an element matching the criteria is fully visible.',
+      inputSchema: scrollToElementSchema,
+    },
+    replayable(
+      'scrollToElement',
+      scrollToElementSchema,
+      async ({
+        container,
+        direction = 'down',
+        maxSwipes = 10,
+        duration,
+        settleMs = 400,
+        serial,
+        ...criteria
+      }: SearchCriteria & {
+        container?: FindCriteria;
+        direction?: ScrollDirection;
+        maxSwipes?: number;
+        duration?: number;
+        settleMs?: number;
+        serial?: string;
+      }) => {
+        const resolvedSerial = normalizeSerial(serial);
+        const search = buildCriteria(criteria);
+        const containerCriteria = container ? buildCriteria(container) : undefined;
+
+        let swipes = 0;
+        let previous: string | null = null;
+        let reason: 'end-of-list' | 'max-swipes' = 'max-swipes';
+        let target: UIElement | null = null;
+
+        for (;;) {
+          const elements = await fetchUiElements(resolvedSerial);
+          const current = findContainer(elements, containerCriteria);
+          target = current;
+          const match = findElements(elements, search).find((element) =>
+            isFullyVisible(element, current)
+          );
+          if (match) {
+            return ok(`Element found after ${swipes} swipe(s).`, {
+              found: true,
+              element: match,
+              swipes,
+              container: current,
+            });
+          }
+
+          const signature = containerSignature(elements, current);
+          if (signature === previous) {
+            reason = 'end-of-list';
+            break;
+          }
+          if (swipes >= maxSwipes) break;
+          previous = signature;
+
+          await swipeContainer(current, direction, {
+            duration,
+            serial: resolvedSerial,
+          });
+          swipes += 1;
+          await sleep(settleMs);
+        }
+
+        return ok(
+          `Element not found after ${swipes} swipe(s); ${describeStop(reason)}.`,
+          {
+            found: false,
+            element: null,
+            swipes,
+            reason,
+            container: target,
+          }
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'scrollAndCollect',
+    {
+      title: 'Scroll and collect',
+      description:
+        "Scroll a container to its end and return every item matching the criteria (default: the container's direct children), de-duplicated across pages.",
+      inputSchema: withSerial(
+        criteriaSchema.extend({
+          container: containerSchema.optional(),
+          direction: directionSchema.optional(),
+          maxSwipes: z.number().int().nonnegative().optional(),
+          maxItems: z.number().int().positive().optional(),
+          duration: z.number().optional(),
+          settleMs: z.number().nonnegative().optional(),
+        })
+      ),
+    },
+    async ({
+      container,
+      direction = 'down',
+      maxSwipes = 20,
+      maxItems,
+      duration,
+      settleMs = 400,
+      serial,
+      ...criteria
+    }: SearchCriteria & {
+      container?: FindCriteria;
+      direction?: ScrollDirection;
+      maxSwipes?: number;
+      maxItems?: number;
+      duration?: number;
+      settleMs?: number;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const search = hasCriteria(criteria) ? buildCriteria(criteria) : null;
+      const containerCriteria = container ? buildCriteria(container) : undefined;
+
+      let collected: CollectedItem[] = [];
+      let swipes = 0;
+      let previous: string | null = null;
+      let reason: 'end-of-list' | 'max-swipes' | 'max-items' = 'max-swipes';
+      let target: UIElement | null = null;
+
+      for (;;) {
+        const elements = await fetchUiElements(resolvedSerial);
+        const current = findContainer(elements, containerCriteria);
+        target = current;
+        const matches = (
+          search
+            ? findElements(elements, search)
+            : elements.filter((element) => element.parentId === current.nodeId)
+        ).filter((element) => isDescendantOf(element, current));
+        collected = mergeCollected(
+          collected,
+          collectPageItems(elements, matches, current, direction)
+        );
+        if (maxItems !== undefined && collected.length >= maxItems) {
+          reason = 'max-items';
+          break;
+        }
+
+        const signature = containerSignature(elements, current);
+        if (signature === previous) {
+          reason = 'end-of-list';
+          break;
+        }
+        if (swipes >= maxSwipes) break;
+        previous = signature;
+
+        await swipeContainer(current, direction, {
+          duration,
+          serial: resolvedSerial,
+        });
+        swipes += 1;
+        await sleep(settleMs);
+      }
+
+      const limited = collected.slice(0, maxItems);
+      // Report items top-to-bottom / left-to-right regardless of direction.
+      if (direction === 'up' || direction === 'left') limited.reverse();
+      const items = limited.map(({ element, texts }) => ({ ...element, texts }));
+      return ok(
+        `Collected ${items.length} item(s) over ${swipes} swipe(s); ${describeStop(reason)}.`,
+        { count: items.length, items, swipes, reason, container: target }
+      );
+    }
+  );
+}
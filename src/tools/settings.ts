@@ -0,0 +1,192 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { adbShell, resolveAdbSerial } from '../adb.js';
+import {
+  buildLocaleCommand,
+  buildSettingsCommands,
+  normalizeLocale,
+  parseDeviceSettings,
+  pickSettings,
+  READ_SETTINGS_SCRIPT,
+  type DeviceSettings,
+} from '../device-settings.js';
+import { normalizeSerial, ok, sleep, toText, withSerial } from './shared.js';
+
+type SettingsInput = Omit<DeviceSettings, 'stayOnWhilePluggedIn'> & {
+  stayOnWhilePluggedIn?: boolean | number;
+};
+
+const FRAMEWORK_RESTART_TIMEOUT_MS = 60000;
+
+const settingsSchema = z.object({
+  nightMode: z.enum(['yes', 'no', 'auto', 'custom']).optional(),
+  locale: z.string().optional(),
+  fontScale: z.number().positive().optional(),
+  density: z.number().int().positive().nullable().optional(),
+  windowAnimationScale: z.number().min(0).optional(),
+  transitionAnimationScale: z.number().min(0).optional(),
+  animatorDurationScale: z.number().min(0).optional(),
+  stayOnWhilePluggedIn: z
+    .union([z.boolean(), z.number().int().min(0).max(15)])
+    .optional(),
+  showTouches: z.boolean().optional(),
+});
+
+// The first change on a device saves a snapshot so restoreDeviceSettings can
+// undo any number of later changes.
+const snapshots = new Map<string, Required<DeviceSettings>>();
+
+function toDeviceSettings({
+  locale,
+  stayOnWhilePluggedIn,
+  ...rest
+}: SettingsInput): DeviceSettings {
+  const settings: DeviceSettings = { ...rest };
+  if (locale !== undefined) settings.locale = normalizeLocale(locale);
+  if (typeof stayOnWhilePluggedIn === 'boolean') {
+    // AC, USB and wireless, the same as the developer option.
+    settings.stayOnWhilePluggedIn = stayOnWhilePluggedIn ? 7 : 0;
+  } else if (stayOnWhilePluggedIn !== undefined) {
+    settings.stayOnWhilePluggedIn = stayOnWhilePluggedIn;
+  }
+  return settings;
+}
+
+export async function readDeviceSettings(serial?: string) {
+  const { stdout } = await adbShell(READ_SETTINGS_SCRIPT, { serial });
+  return parseDeviceSettings(toText(stdout));
+}
+
+async function waitForFramework(serial?: string) {
+  const deadline = Date.now() + FRAMEWORK_RESTART_TIMEOUT_MS;
+  // Give zygote a moment to go down before polling.
+  await sleep(2000);
+  while (Date.now() < deadline) {
+    try {
+      const { stdout } = await adbShell('pm path android', { serial });
+      if (toText(stdout).trim().startsWith('package:')) return;
+    } catch {
+      // Package manager is not back yet.
+    }
+    await sleep(1000);
+  }
+  throw new Error('Android framework did not restart within 60s.');
+}
+
+async function applySettings(
+  changes: DeviceSettings,
+  current: Required<DeviceSettings>,
+  serial?: string
+) {
+  const commands = buildSettingsCommands(changes);
+  if (commands.length > 0) {
+    await adbShell(commands.join('; '), { serial });
+  }
+  if (changes.locale !== undefined && changes.locale !== current.locale) {
+    const { stdout } = await adbShell(
+      `${buildLocaleCommand(changes.locale)} 2>&1`,
+      { serial }
+    );
+    const output = toText(stdout).trim();
+    if (output) {
+      throw new Error(
+        `Changing the system locale needs root (adb root on an emulator): ${output}`
+      );
+    }
+    await waitForFramework(serial);
+  }
+  return readDeviceSettings(serial);
+}
+
+function mismatches(expected: DeviceSettings, actual: Required<DeviceSettings>) {
+  return Object.entries(expected)
+    .filter(
+      ([key, value]) =>
+        value !== undefined && actual[key as keyof DeviceSettings] !== value
+    )
+    .map(([key]) => key);
+}
+
+export function registerSettingsTools(server: McpServer) {
+  server.registerTool(
+    'deviceSettings',
+    {
+      title: 'Device settings',
+      description:
+        'Read or change night mode, system locale, font scale, density override (null resets), the three animation scales, stay-on-while-plugged-in and show touches. Returns the previous values; the first change saves a snapshot for restoreDeviceSettings. Changing the locale restarts the Android framework and needs root.',
+      inputSchema: withSerial(settingsSchema),
+    },
+    async ({ serial, ...input }: SettingsInput & { serial?: string }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const changes = toDeviceSettings(input);
+      const previous = await readDeviceSettings(resolvedSerial);
+      if (Object.values(changes).every((value) => value === undefined)) {
+        return ok('Device settings read.', { current: previous });
+      }
+
+      const key = resolvedSerial ?? (await resolveAdbSerial()) ?? '';
+      const snapshotSaved = !snapshots.has(key);
+      if (snapshotSaved) snapshots.set(key, previous);
+      const current = await applySettings(changes, previous, resolvedSerial);
+      const unapplied = mismatches(changes, current);
+      const text =
+        unapplied.length === 0
+          ? 'Device settings updated.'
+          : `Device settings updated, but ${unapplied.join(', ')} did not take effect.`;
+      return ok(text, {
+        previous: pickSettings(previous, changes),
+        current,
+        unapplied,
+        snapshotSaved,
+      });
+    }
+  );
+
+  server.registerTool(
+    'restoreDeviceSettings',
+    {
+      title: 'Restore device settings',
+      description:
+        'Put back the settings saved before the first deviceSettings change on this device, or an explicit snapshot (e.g. a previous result).',
+      inputSchema: withSerial(
+        z.object({
+          snapshot: settingsSchema.optional(),
+        })
+      ),
+    },
+    async ({
+      snapshot,
+      serial,
+    }: {
+      snapshot?: SettingsInput;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const key = resolvedSerial ?? (await resolveAdbSerial()) ?? '';
+      const saved = snapshots.get(key);
+      const target = snapshot ? toDeviceSettings(snapshot) : saved;
+      if (!target) {
+        throw new Error(
+          `No saved settings for ${key || 'this device'}; pass a snapshot.`
+        );
+      }
+
+      const before = await readDeviceSettings(resolvedSerial);
+      const changes = Object.fromEntries(
+        mismatches(target, before).map((name) => [
+          name,
+          target[name as keyof DeviceSettings],
+        ])
+      ) as DeviceSettings;
+      const current = await applySettings(changes, before, resolvedSerial);
+      if (!snapshot) snapshots.delete(key);
+      const restored = Object.keys(changes);
+      return ok(
+        restored.length === 0
+          ? 'Device settings already match the snapshot.'
+          : `Restored ${restored.join(', ')}.`,
+        { restored, current, unapplied: mismatches(changes, current) }
+      );
+    }
+  );
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+export function toText(value: string | Buffer) {
+  return Buffer.isBuffer(value) ? value.toString('utf8') : value;
+}
+
+export function toRecord(data: unknown): Record<string, unknown> {
+  if (data === null || data === undefined) return {};
+  if (typeof data === 'object' && !Array.isArray(data)) {
+    return data as Record<string, unknown>;
+  }
+  return { data };
+}
+
+export const ok = (text: string, data: unknown) => ({
+  content: [{ type: 'text' as const, text }],
+  structuredContent: toRecord(data),
+});
+
+export const list = (text: string, items: unknown) => ok(text, { items });
+
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const serialSchema = z.object({
+  serial: z.string().optional(),
+});
+
+export function withSerial<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  return schema.extend(serialSchema.shape);
+}
+
+export function normalizeSerial(serial?: string) {
+  if (!serial) return undefined;
+  const trimmed = serial.trim();
+  if (trimmed === '' || trimmed.toLowerCase() === 'auto') return undefined;
+  return trimmed;
+}
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
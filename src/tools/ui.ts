@@ -0,0 +1,163 @@
+import { randomUUID } from 'node:crypto';
+import { writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { adbExecOut, adbShell } from '../adb.js';
+import { clampRect, cropImage, decodePng, encodePng, type Rect } from '../png.js';
+import { parseUIElements, type UIElement } from '../ui-parser.js';
+import { normalizeSerial, toText } from './shared.js';
+
+export async function fetchUiXml({
+  attempts = 2,
+  delayMs = 300,
+  serial,
+}: {
+  attempts?: number;
+  delayMs?: number;
+  serial?: string;
+} = {}) {
+  let lastError: unknown;
+  const resolvedSerial = normalizeSerial(serial);
+  for (let attempt = 0; attempt < attempts; attempt += 1) {
+    try {
+      await adbShell('uiautomator dump /sdcard/ui.xml', {
+        serial: resolvedSerial,
+      });
+      const { stdout } = await adbExecOut(['cat', '/sdcard/ui.xml'], {
+        serial: resolvedSerial,
+      });
+      return toText(stdout);
+    } catch (error) {
+      lastError = error;
+      if (attempt < attempts - 1) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+  throw lastError;
+}
+
+export async function fetchUiElements(serial?: string) {
+  const xml = await fetchUiXml({ serial });
+  return parseUIElements(xml);
+}
+
+export async function captureScreenshotBuffer(serial?: string) {
+  const resolvedSerial = normalizeSerial(serial);
+  const { stdout } = await adbExecOut(['screencap', '-p'], {
+    serial: resolvedSerial,
+  });
+  return Buffer.isBuffer(stdout) ? stdout : Buffer.from(stdout);
+}
+
+export async function saveScreenshotToFile(buffer: Buffer, filePath?: string) {
+  const targetPath =
+    filePath ??
+    join(tmpdir(), `expo-android-${Date.now()}-${randomUUID()}.png`);
+  await writeFile(targetPath, buffer);
+  return targetPath;
+}
+
+async function storeScreenshot(
+  buffer: Buffer,
+  mode: 'base64' | 'path',
+  path?: string
+) {
+  if (mode === 'path') {
+    const savedPath = await saveScreenshotToFile(buffer, path);
+    return {
+      mode,
+      path: savedPath,
+      base64: null,
+      mimeType: 'image/png',
+    };
+  }
+  return {
+    mode,
+    path: null,
+    base64: buffer.toString('base64'),
+    mimeType: 'image/png',
+  };
+}
+
+export async function captureScreenshot({
+  mode,
+  path,
+  serial,
+}: {
+  mode: 'base64' | 'path';
+  path?: string;
+  serial?: string;
+}) {
+  return storeScreenshot(await captureScreenshotBuffer(serial), mode, path);
+}
+
+// Crops to the region clamped to the screen and returns that clamped rect.
+export async function captureScreenshotRegion({
+  mode,
+  path,
+  serial,
+  region,
+}: {
+  mode: 'base64' | 'path';
+  path?: string;
+  serial?: string;
+  region: Rect;
+}) {
+  const image = decodePng(await captureScreenshotBuffer(serial));
+  const cropped = clampRect(region, image.width, image.height);
+  const stored = await storeScreenshot(
+    encodePng(cropImage(image, cropped)),
+    mode,
+    path
+  );
+  return { ...stored, region: cropped };
+}
+
+export function isInteractive(element: UIElement) {
+  return element.clickable || element.checkable || element.scrollable;
+}
+
+export function hasValidBounds(element: UIElement) {
+  const { x1, y1, x2, y2 } = element.bounds;
+  return x2 > x1 && y2 > y1;
+}
+
+export function isOnlyProgress(elements: UIElement[]) {
+  if (elements.length === 0) return true;
+  return elements.every((element) =>
+    element.class.toLowerCase().includes('progressbar')
+  );
+}
+
+export async function fetchUiElementsWithRetry({
+  onlyInteractive,
+  attempts = 3,
+  delayMs = 400,
+  serial,
+}: {
+  onlyInteractive?: boolean;
+  attempts?: number;
+  delayMs?: number;
+  serial?: string;
+}) {
+  let lastElements: UIElement[] = [];
+  for (let attempt = 0; attempt < attempts; attempt += 1) {
+    const elements = await fetchUiElements(serial);
+    lastElements = elements;
+    const interactiveCount = elements.filter(isInteractive).length;
+    const shouldRetry =
+      elements.length === 0 ||
+      isOnlyProgress(elements) ||
+      (onlyInteractive === true && interactiveCount === 0);
+
+    if (!shouldRetry) {
+      return elements;
+    }
+
+    if (attempt < attempts - 1) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+  return lastElements;
+}
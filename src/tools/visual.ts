@@ -0,0 +1,201 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import {
+  EXPO_ANDROID_BASELINE_DIR,
+  EXPO_ANDROID_VISUAL_OUTPUT_DIR,
+} from '../config.js';
+import { decodePng, encodePng } from '../png.js';
+import { findElements } from '../ui-parser.js';
+import { compareImages, regionFromBounds, type Region } from '../visual-diff.js';
+import {
+  buildCriteria,
+  criteriaSchema,
+  regionSchema,
+  type SearchCriteria,
+} from './criteria.js';
+import { normalizeSerial, ok, withSerial } from './shared.js';
+import {
+  captureScreenshotBuffer,
+  fetchUiElements,
+  hasValidBounds,
+} from './ui.js';
+
+const nameSchema = z
+  .string()
+  .regex(/^[\w.-]+$/, 'Use letters, digits, dots, dashes and underscores.');
+
+function baselinePath(name?: string, path?: string) {
+  if (path) return resolve(path);
+  if (!name) throw new Error('Provide a baseline name or path.');
+  return join(EXPO_ANDROID_BASELINE_DIR, `${name}.png`);
+}
+
+// Diff and actual PNGs go to a separate directory so the baseline directory,
+// which is usually committed, only ever holds baselines.
+function artifactPath(baseline: string, suffix: string, outputDir?: string) {
+  const name = basename(baseline).replace(/\.png$/i, '');
+  return join(
+    outputDir ? resolve(outputDir) : EXPO_ANDROID_VISUAL_OUTPUT_DIR,
+    `${name}.${suffix}.png`
+  );
+}
+
+async function writePng(filePath: string, buffer: Buffer) {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, buffer);
+  return filePath;
+}
+
+export function registerVisualTools(server: McpServer) {
+  server.registerTool(
+    'saveBaseline',
+    {
+      title: 'Save baseline',
+      description:
+        'Capture a screenshot and store it as a named baseline for compareScreenshot (EXPO_ANDROID_BASELINE_DIR/<name>.png unless path is given).',
+      inputSchema: withSerial(
+        z.object({
+          name: nameSchema.optional(),
+          path: z.string().optional(),
+        })
+      ),
+    },
+    async ({
+      name,
+      path,
+      serial,
+    }: {
+      name?: string;
+      path?: string;
+      serial?: string;
+    }) => {
+      const target = baselinePath(name, path);
+      const buffer = await captureScreenshotBuffer(serial);
+      const { width, height } = decodePng(buffer);
+      await writePng(target, buffer);
+      return ok(`Saved ${width}x${height} baseline to ${target}.`, {
+        path: target,
+        width,
+        height,
+      });
+    }
+  );
+
+  server.registerTool(
+    'compareScreenshot',
+    {
+      title: 'Compare screenshot',
+      description:
+        'Compare the current screen with a baseline pixel by pixel. threshold (0-1) is the per-channel difference a pixel may have; the check passes when the mismatch percentage is at most maxMismatchPercent. Ignore regions by rectangle or element criteria. Writes a diff PNG (differences in red, ignored regions in blue) to outputDir or EXPO_ANDROID_VISUAL_OUTPUT_DIR.',
+      inputSchema: withSerial(
+        z.object({
+          name: nameSchema.optional(),
+          baselinePath: z.string().optional(),
+          threshold: z.number().min(0).max(1).optional(),
+          maxMismatchPercent: z.number().min(0).max(100).optional(),
+          ignoreRegions: z.array(regionSchema).optional(),
+          ignoreElements: z.array(criteriaSchema).optional(),
+          diffPath: z.string().optional(),
+          actualPath: z.string().optional(),
+          outputDir: z.string().optional(),
+        })
+      ),
+    },
+    async ({
+      name,
+      baselinePath: path,
+      threshold = 0.1,
+      maxMismatchPercent = 0,
+      ignoreRegions = [],
+      ignoreElements = [],
+      diffPath,
+      actualPath,
+      outputDir,
+      serial,
+    }: {
+      name?: string;
+      baselinePath?: string;
+      threshold?: number;
+      maxMismatchPercent?: number;
+      ignoreRegions?: Region[];
+      ignoreElements?: SearchCriteria[];
+      diffPath?: string;
+      actualPath?: string;
+      outputDir?: string;
+      serial?: string;
+    }) => {
+      const resolvedSerial = normalizeSerial(serial);
+      const target = baselinePath(name, path);
+      let baselineBuffer: Buffer;
+      try {
+        baselineBuffer = await readFile(target);
+      } catch {
+        throw new Error(
+          `Baseline ${target} not found; capture one with saveBaseline first.`
+        );
+      }
+      const baseline = decodePng(baselineBuffer);
+
+      const ignore = [...ignoreRegions];
+      if (ignoreElements.length > 0) {
+        const elements = await fetchUiElements(resolvedSerial);
+        for (const criteria of ignoreElements) {
+          const matches = findElements(elements, buildCriteria(criteria)).filter(
+            hasValidBounds
+          );
+          ignore.push(
+            ...matches.map((element) => regionFromBounds(element.bounds))
+          );
+        }
+      }
+
+      const actualBuffer = await captureScreenshotBuffer(resolvedSerial);
+      const result = compareImages(baseline, decodePng(actualBuffer), {
+        threshold,
+        ignore,
+      });
+      const passed =
+        !result.sizeMismatch && result.mismatchPercent <= maxMismatchPercent;
+
+      // Keep artifacts only when something differs or they were asked for.
+      const writeDiff = diffPath !== undefined || result.diffPixels > 0;
+      const savedDiff = writeDiff
+        ? await writePng(
+            diffPath ? resolve(diffPath) : artifactPath(target, 'diff', outputDir),
+            encodePng(result.diff)
+          )
+        : null;
+      const savedActual =
+        actualPath !== undefined || !passed
+          ? await writePng(
+              actualPath
+                ? resolve(actualPath)
+                : artifactPath(target, 'actual', outputDir),
+              actualBuffer
+            )
+          : null;
+
+      const summary = result.sizeMismatch
+        ? `Screen size differs from baseline (${baseline.width}x${baseline.height}).`
+        : `${result.mismatchPercent}% of pixels differ (limit ${maxMismatchPercent}%).`;
+      return ok(`${passed ? 'Match' : 'Mismatch'}: ${summary}`, {
+        passed,
+        mismatchPercent: result.mismatchPercent,
+        diffPixels: result.diffPixels,
+        comparedPixels: result.comparedPixels,
+        ignoredPixels: result.ignoredPixels,
+        sizeMismatch: result.sizeMismatch,
+        width: result.width,
+        height: result.height,
+        threshold,
+        maxMismatchPercent,
+        ignoreRegions: ignore,
+        baselinePath: target,
+        diffPath: savedDiff,
+        actualPath: savedActual,
+      });
+    }
+  );
+}
@@ -1,3 +1,5 @@
+import { selectElements } from './selector.js';
+
 export type Bounds = {
   x1: number;
   y1: number;
@@ -11,6 +13,11 @@ export type Center = {
 };
 
 export type UIElement = {
+  nodeId: number;
+  parentId: number | null;
+  childIds: number[];
+  depth: number;
+  path: string;
   index: number;
   text: string;
   class: string;
@@ -21,6 +28,7 @@ export type UIElement = {
   checkable: boolean;
   checked: boolean;
   clickable: boolean;
+  longClickable: boolean;
   enabled: boolean;
   focused: boolean;
   scrollable: boolean;
@@ -39,6 +47,26 @@ export type FindCriteria = {
   clickable?: boolean;
   normalizeWhitespace?: boolean;
   caseInsensitive?: boolean;
+  hasAncestor?: FindCriteria;
+  hasParent?: FindCriteria;
+  hasDescendant?: FindCriteria;
+  hasChild?: FindCriteria;
+  selector?: string;
+  below?: SpatialRelation;
+  above?: SpatialRelation;
+  leftOf?: SpatialRelation;
+  rightOf?: SpatialRelation;
+  sameRowAs?: SpatialRelation;
+  within?: SpatialRelation;
+  nearest?: SpatialRelation;
+};
+
+export type SpatialRelation = FindCriteria & {
+  maxDistance?: number;
+};
+
+export type UITreeNode = Omit<UIElement, 'childIds'> & {
+  children: UITreeNode[];
 };
 
 const ENTITY_MAP: Record<string, string> = {
@@ -98,23 +126,48 @@ function centerFromBounds(bounds: Bounds): Center {
   };
 }
 
+function shortClassName(className: string) {
+  const name = className.slice(className.lastIndexOf('.') + 1);
+  return name || 'node';
+}
+
 export function parseUIElements(xml: string): UIElement[] {
   const elements: UIElement[] = [];
-  let fallbackIndex = 0;
-  const nodeRegex = /<node\b[^>]*>/g;
+  const stack: UIElement[] = [];
+  const tagRegex = /<node\b[^>]*>|<\/node\s*>/g;
 
-  for (const match of xml.matchAll(nodeRegex)) {
+  for (const match of xml.matchAll(tagRegex)) {
     const tag = match[0];
+    if (tag.startsWith('</')) {
+      stack.pop();
+      continue;
+    }
+
     const attrs = parseAttributes(tag);
     const bounds = parseBounds(attrs.bounds) ?? defaultBounds();
     const center = centerFromBounds(bounds);
+    const parent = stack[stack.length - 1] ?? null;
+    const siblings = parent
+      ? parent.childIds.map((id) => elements[id])
+      : elements.filter((element) => element.parentId === null);
     const parsedIndex = Number.parseInt(attrs.index ?? '', 10);
-    const index = Number.isFinite(parsedIndex) ? parsedIndex : fallbackIndex;
+    const index = Number.isFinite(parsedIndex) ? parsedIndex : siblings.length;
+    const className = attrs.class ?? '';
+    const segment = shortClassName(className);
+    const sameClass = siblings.filter(
+      (sibling) => shortClassName(sibling.class) === segment
+    ).length;
+    const nodeId = elements.length;
 
-    elements.push({
+    const element: UIElement = {
+      nodeId,
+      parentId: parent ? parent.nodeId : null,
+      childIds: [],
+      depth: stack.length,
+      path: `${parent ? parent.path : ''}/${segment}[${sameClass}]`,
       index,
       text: attrs.text ?? '',
-      class: attrs.class ?? '',
+      class: className,
       resourceId: attrs['resource-id'] ?? '',
       contentDesc: attrs['content-desc'] ?? '',
       bounds,
@@ -122,18 +175,102 @@ export function parseUIElements(xml: string): UIElement[] {
       checkable: toBoolean(attrs.checkable),
       checked: toBoolean(attrs.checked),
       clickable: toBoolean(attrs.clickable),
+      longClickable: toBoolean(attrs['long-clickable']),
       enabled: toBoolean(attrs.enabled),
       focused: toBoolean(attrs.focused),
       scrollable: toBoolean(attrs.scrollable),
       selected: toBoolean(attrs.selected),
-    });
+    };
+    elements.push(element);
+    parent?.childIds.push(nodeId);
 
-    fallbackIndex += 1;
+    if (!tag.endsWith('/>')) {
+      stack.push(element);
+    }
   }
 
   return elements;
 }
 
+export function getParent(elements: UIElement[], element: UIElement) {
+  if (element.parentId === null) return null;
+  return (
+    elements.find((candidate) => candidate.nodeId === element.parentId) ?? null
+  );
+}
+
+export function getAncestors(elements: UIElement[], element: UIElement) {
+  const byId = new Map(
+    elements.map((candidate) => [candidate.nodeId, candidate])
+  );
+  const ancestors: UIElement[] = [];
+  let parentId = element.parentId;
+  while (parentId !== null) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+export type TapTargetReason =
+  | 'self'
+  | 'clickable-ancestor'
+  | 'long-clickable-ancestor'
+  | 'no-clickable-ancestor';
+
+export function resolveTapTarget(
+  elements: UIElement[],
+  element: UIElement
+): { target: UIElement; reason: TapTargetReason } {
+  if (element.clickable || element.longClickable) {
+    return { target: element, reason: 'self' };
+  }
+  for (const ancestor of getAncestors(elements, element)) {
+    if (ancestor.clickable) {
+      return { target: ancestor, reason: 'clickable-ancestor' };
+    }
+    if (ancestor.longClickable) {
+      return { target: ancestor, reason: 'long-clickable-ancestor' };
+    }
+  }
+  return { target: element, reason: 'no-clickable-ancestor' };
+}
+
+export function buildUITree(
+  elements: UIElement[],
+  {
+    keep,
+    maxDepth,
+  }: { keep?: (element: UIElement) => boolean; maxDepth?: number } = {}
+): UITreeNode[] {
+  const byId = new Map(elements.map((element) => [element.nodeId, element]));
+
+  const build = (element: UIElement): UITreeNode | null => {
+    const { childIds, ...rest } = element;
+    const children =
+      maxDepth !== undefined && element.depth >= maxDepth
+        ? []
+        : childIds
+            .map((id) => byId.get(id))
+            .filter((child): child is UIElement => Boolean(child))
+            .map(build)
+            .filter((child): child is UITreeNode => child !== null);
+    if (keep && !keep(element) && children.length === 0) {
+      return null;
+    }
+    return { ...rest, children };
+  };
+
+  return elements
+    .filter(
+      (element) => element.parentId === null || !byId.has(element.parentId)
+    )
+    .map(build)
+    .filter((node): node is UITreeNode => node !== null);
+}
+
 function isInteractive(element: UIElement) {
   return element.clickable || element.checkable || element.scrollable;
 }
@@ -181,87 +318,268 @@ function normalizeValue(value: string, criteria: FindCriteria) {
   return normalized;
 }
 
-export function findElements(elements: UIElement[], criteria: FindCriteria) {
-  return elements.filter((element) => {
-    const textValue = normalizeValue(element.text, criteria);
-    const contentDescValue = normalizeValue(element.contentDesc, criteria);
-    const textCriteria =
-      criteria.text !== undefined
-        ? normalizeValue(criteria.text, criteria)
-        : undefined;
-    const textContainsCriteria =
-      criteria.textContains !== undefined
-        ? normalizeValue(criteria.textContains, criteria)
-        : undefined;
-    const contentDescCriteria =
-      criteria.contentDesc !== undefined
-        ? normalizeValue(criteria.contentDesc, criteria)
-        : undefined;
-    const contentDescContainsCriteria =
-      criteria.contentDescContains !== undefined
-        ? normalizeValue(criteria.contentDescContains, criteria)
-        : undefined;
-    const resourceIdValue = criteria.caseInsensitive
-      ? element.resourceId.toLowerCase()
-      : element.resourceId;
-    const resourceIdCriteria = criteria.resourceId
-      ? criteria.caseInsensitive
-        ? criteria.resourceId.toLowerCase()
-        : criteria.resourceId
+function matchesOwnCriteria(element: UIElement, criteria: FindCriteria) {
+  const textValue = normalizeValue(element.text, criteria);
+  const contentDescValue = normalizeValue(element.contentDesc, criteria);
+  const textCriteria =
+    criteria.text !== undefined
+      ? normalizeValue(criteria.text, criteria)
+      : undefined;
+  const textContainsCriteria =
+    criteria.textContains !== undefined
+      ? normalizeValue(criteria.textContains, criteria)
       : undefined;
-    const resourceIdContainsCriteria = criteria.resourceIdContains
-      ? criteria.caseInsensitive
-        ? criteria.resourceIdContains.toLowerCase()
-        : criteria.resourceIdContains
+  const contentDescCriteria =
+    criteria.contentDesc !== undefined
+      ? normalizeValue(criteria.contentDesc, criteria)
       : undefined;
+  const contentDescContainsCriteria =
+    criteria.contentDescContains !== undefined
+      ? normalizeValue(criteria.contentDescContains, criteria)
+      : undefined;
+  const resourceIdValue = criteria.caseInsensitive
+    ? element.resourceId.toLowerCase()
+    : element.resourceId;
+  const resourceIdCriteria = criteria.resourceId
+    ? criteria.caseInsensitive
+      ? criteria.resourceId.toLowerCase()
+      : criteria.resourceId
+    : undefined;
+  const resourceIdContainsCriteria = criteria.resourceIdContains
+    ? criteria.caseInsensitive
+      ? criteria.resourceIdContains.toLowerCase()
+      : criteria.resourceIdContains
+    : undefined;
 
-    if (textCriteria !== undefined && textValue !== textCriteria) {
-      return false;
+  if (textCriteria !== undefined && textValue !== textCriteria) {
+    return false;
+  }
+  if (
+    textContainsCriteria !== undefined &&
+    !textValue.includes(textContainsCriteria)
+  ) {
+    return false;
+  }
+  if (
+    criteria.class !== undefined &&
+    (criteria.caseInsensitive
+      ? element.class.toLowerCase() !== criteria.class.toLowerCase()
+      : element.class !== criteria.class)
+  ) {
+    return false;
+  }
+  if (contentDescCriteria !== undefined && contentDescValue !== contentDescCriteria) {
+    return false;
+  }
+  if (
+    contentDescContainsCriteria !== undefined &&
+    !contentDescValue.includes(contentDescContainsCriteria)
+  ) {
+    return false;
+  }
+  if (resourceIdCriteria !== undefined && resourceIdValue !== resourceIdCriteria) {
+    return false;
+  }
+  if (
+    resourceIdContainsCriteria !== undefined &&
+    !resourceIdValue.includes(resourceIdContainsCriteria)
+  ) {
+    return false;
+  }
+  if (
+    criteria.checkable !== undefined &&
+    element.checkable !== criteria.checkable
+  ) {
+    return false;
+  }
+  if (
+    criteria.clickable !== undefined &&
+    element.clickable !== criteria.clickable
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function inheritFlags(
+  criteria: FindCriteria,
+  parent: FindCriteria
+): FindCriteria {
+  return {
+    normalizeWhitespace: parent.normalizeWhitespace,
+    caseInsensitive: parent.caseInsensitive,
+    ...criteria,
+  };
+}
+
+function matchingIds(
+  elements: UIElement[],
+  criteria: FindCriteria | undefined,
+  parent: FindCriteria
+) {
+  if (!criteria) return null;
+  return new Set(
+    findElements(elements, inheritFlags(criteria, parent)).map(
+      (element) => element.nodeId
+    )
+  );
+}
+
+const SPATIAL_RELATIONS = [
+  'below',
+  'above',
+  'leftOf',
+  'rightOf',
+  'sameRowAs',
+  'within',
+  'nearest',
+] as const;
+
+type SpatialKey = (typeof SPATIAL_RELATIONS)[number];
+
+function gapDistance(a: Bounds, b: Bounds) {
+  const dx = Math.max(0, a.x1 - b.x2, b.x1 - a.x2);
+  const dy = Math.max(0, a.y1 - b.y2, b.y1 - a.y2);
+  return Math.hypot(dx, dy);
+}
+
+function centerDistance(a: Center, b: Center) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Directional relations measure the gap between the two boxes; `within` and
+// `nearest` measure between centers so that containers do not score zero.
+function spatialDistance(
+  key: SpatialKey,
+  element: UIElement,
+  anchor: UIElement
+): number | null {
+  const { bounds, center } = element;
+  const box = anchor.bounds;
+  switch (key) {
+    case 'below':
+      return center.y > box.y2 ? gapDistance(bounds, box) : null;
+    case 'above':
+      return center.y < box.y1 ? gapDistance(bounds, box) : null;
+    case 'leftOf':
+      return center.x < box.x1 ? gapDistance(bounds, box) : null;
+    case 'rightOf':
+      return center.x > box.x2 ? gapDistance(bounds, box) : null;
+    case 'sameRowAs': {
+      const overlaps =
+        (center.y >= box.y1 && center.y <= box.y2) ||
+        (anchor.center.y >= bounds.y1 && anchor.center.y <= bounds.y2);
+      return overlaps ? gapDistance(bounds, box) : null;
     }
-    if (
-      textContainsCriteria !== undefined &&
-      !textValue.includes(textContainsCriteria)
-    ) {
-      return false;
+    case 'within': {
+      const inside =
+        bounds.x1 >= box.x1 &&
+        bounds.y1 >= box.y1 &&
+        bounds.x2 <= box.x2 &&
+        bounds.y2 <= box.y2;
+      return inside ? centerDistance(center, anchor.center) : null;
     }
-    if (
-      criteria.class !== undefined &&
-      (criteria.caseInsensitive
-        ? element.class.toLowerCase() !== criteria.class.toLowerCase()
-        : element.class !== criteria.class)
-    ) {
-      return false;
+    case 'nearest':
+      return centerDistance(center, anchor.center);
+  }
+}
+
+function rankBySpatialRelations(
+  elements: UIElement[],
+  matches: UIElement[],
+  criteria: FindCriteria
+) {
+  const relations = SPATIAL_RELATIONS.flatMap((key) => {
+    const relation = criteria[key];
+    if (!relation) return [];
+    const anchors = findElements(elements, inheritFlags(relation, criteria));
+    return [{ key, maxDistance: relation.maxDistance, anchors }];
+  });
+  if (relations.length === 0) return matches;
+
+  const ranked: Array<{ element: UIElement; distance: number }> = [];
+  for (const element of matches) {
+    let total = 0;
+    let satisfied = true;
+    for (const { key, maxDistance, anchors } of relations) {
+      let best: number | null = null;
+      for (const anchor of anchors) {
+        if (anchor.nodeId === element.nodeId) continue;
+        const distance = spatialDistance(key, element, anchor);
+        if (distance !== null && (best === null || distance < best)) {
+          best = distance;
+        }
+      }
+      if (best === null || (maxDistance !== undefined && best > maxDistance)) {
+        satisfied = false;
+        break;
+      }
+      total += best;
     }
-    if (contentDescCriteria !== undefined && contentDescValue !== contentDescCriteria) {
-      return false;
+    if (satisfied) ranked.push({ element, distance: total });
+  }
+  return ranked
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ element }) => element);
+}
+
+export function findElements(elements: UIElement[], criteria: FindCriteria) {
+  const byId = new Map(elements.map((element) => [element.nodeId, element]));
+  const ancestorIds = matchingIds(elements, criteria.hasAncestor, criteria);
+  const parentIds = matchingIds(elements, criteria.hasParent, criteria);
+  const descendantIds = matchingIds(elements, criteria.hasDescendant, criteria);
+  const childIds = matchingIds(elements, criteria.hasChild, criteria);
+  const selectedIds = criteria.selector
+    ? new Set(
+        selectElements(elements, criteria.selector).map(
+          (element) => element.nodeId
+        )
+      )
+    : null;
+
+  // Mark every ancestor of a matching descendant once instead of walking
+  // each candidate's subtree.
+  let withDescendant: Set<number> | null = null;
+  if (descendantIds) {
+    withDescendant = new Set();
+    for (const id of descendantIds) {
+      let parentId = byId.get(id)?.parentId ?? null;
+      while (parentId !== null && !withDescendant.has(parentId)) {
+        withDescendant.add(parentId);
+        parentId = byId.get(parentId)?.parentId ?? null;
+      }
     }
+  }
+
+  const matches = elements.filter((element) => {
+    if (selectedIds && !selectedIds.has(element.nodeId)) return false;
+    if (!matchesOwnCriteria(element, criteria)) return false;
     if (
-      contentDescContainsCriteria !== undefined &&
-      !contentDescValue.includes(contentDescContainsCriteria)
+      parentIds &&
+      (element.parentId === null || !parentIds.has(element.parentId))
     ) {
       return false;
     }
-    if (resourceIdCriteria !== undefined && resourceIdValue !== resourceIdCriteria) {
-      return false;
+    if (ancestorIds) {
+      let parentId = element.parentId;
+      let found = false;
+      while (parentId !== null) {
+        if (ancestorIds.has(parentId)) {
+          found = true;
+          break;
+        }
+        parentId = byId.get(parentId)?.parentId ?? null;
+      }
+      if (!found) return false;
     }
-    if (
-      resourceIdContainsCriteria !== undefined &&
-      !resourceIdValue.includes(resourceIdContainsCriteria)
-    ) {
+    if (childIds && !element.childIds.some((id) => childIds.has(id))) {
       return false;
     }
-    if (
-      criteria.checkable !== undefined &&
-      element.checkable !== criteria.checkable
-    ) {
-      return false;
-    }
-    if (
-      criteria.clickable !== undefined &&
-      element.clickable !== criteria.clickable
-    ) {
+    if (withDescendant && !withDescendant.has(element.nodeId)) {
       return false;
     }
     return true;
   });
+
+  return rankBySpatialRelations(elements, matches, criteria);
 }
@@ -0,0 +1,126 @@
+import { createImage, type Rect, type RgbaImage } from './png.js';
+import type { UIElement } from './ui-parser.js';
+
+export type Region = Rect;
+
+export type ImageDiff = {
+  width: number;
+  height: number;
+  sizeMismatch: boolean;
+  diffPixels: number;
+  comparedPixels: number;
+  ignoredPixels: number;
+  mismatchPercent: number;
+  diff: RgbaImage;
+};
+
+export function regionFromBounds(bounds: UIElement['bounds']): Region {
+  return {
+    x: bounds.x1,
+    y: bounds.y1,
+    width: bounds.x2 - bounds.x1,
+    height: bounds.y2 - bounds.y1,
+  };
+}
+
+function ignoreMask(width: number, height: number, regions: Region[]) {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+    if (right <= left) continue;
+    for (let y = top; y < bottom; y += 1) {
+      mask.fill(1, y * width + left, y * width + right);
+    }
+  }
+  return mask;
+}
+
+// Largest per-channel difference, with alpha applied against white so that
+// fully transparent pixels compare equal regardless of their color.
+function pixelDistance(
+  a: Uint8Array,
+  aOffset: number,
+  b: Uint8Array,
+  bOffset: number
+) {
+  let distance = 0;
+  for (let channel = 0; channel < 3; channel += 1) {
+    const blendA = 255 + ((a[aOffset + channel] - 255) * a[aOffset + 3]) / 255;
+    const blendB = 255 + ((b[bOffset + channel] - 255) * b[bOffset + 3]) / 255;
+    distance = Math.max(distance, Math.abs(blendA - blendB));
+  }
+  return distance / 255;
+}
+
+// Differences are painted red over a faded grayscale copy of the baseline;
+// ignored regions are tinted blue.
+export function compareImages(
+  baseline: RgbaImage,
+  actual: RgbaImage,
+  { threshold = 0.1, ignore = [] }: { threshold?: number; ignore?: Region[] } = {}
+): ImageDiff {
+  const width = Math.max(baseline.width, actual.width);
+  const height = Math.max(baseline.height, actual.height);
+  const sizeMismatch =
+    baseline.width !== actual.width || baseline.height !== actual.height;
+  const mask = ignoreMask(width, height, ignore);
+  const diff = createImage(width, height);
+  let diffPixels = 0;
+  let ignoredPixels = 0;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const target = (y * width + x) * 4;
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const inActual = x < actual.width && y < actual.height;
+      const baseOffset = (y * baseline.width + x) * 4;
+      let gray = 255;
+      if (inBaseline) {
+        const { data } = baseline;
+        const luma =
+          0.299 * data[baseOffset] +
+          0.587 * data[baseOffset + 1] +
+          0.114 * data[baseOffset + 2];
+        gray = Math.round(255 - ((255 - luma) * data[baseOffset + 3]) / 255 / 4);
+      }
+
+      if (mask[y * width + x]) {
+        ignoredPixels += 1;
+        diff.data.set([gray >> 1, gray >> 1, 255, 255], target);
+        continue;
+      }
+      const differs =
+        !inBaseline ||
+        !inActual ||
+        pixelDistance(
+          baseline.data,
+          baseOffset,
+          actual.data,
+          (y * actual.width + x) * 4
+        ) > threshold;
+      if (differs) {
+        diffPixels += 1;
+        diff.data.set([255, 0, 0, 255], target);
+      } else {
+        diff.data.set([gray, gray, gray, 255], target);
+      }
+    }
+  }
+  const comparedPixels = width * height - ignoredPixels;
+  return {
+    width,
+    height,
+    sizeMismatch,
+    diffPixels,
+    comparedPixels,
+    ignoredPixels,
+    mismatchPercent:
+      comparedPixels === 0
+        ? 0
+        : Number(((diffPixels / comparedPixels) * 100).toFixed(4)),
+    diff,
+  };
+}
@@ -0,0 +1,95 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildLocaleCommand,
+  buildSettingsCommands,
+  normalizeLocale,
+  parseDensity,
+  parseDeviceSettings,
+  pickSettings,
+  READ_SETTINGS_SCRIPT,
+} from '../dist/device-settings.js';
+
+test('parseDeviceSettings reads the settings script output', () => {
+  const output = [
+    'nightMode=Night mode: yes',
+    'locale=ar-EG',
+    'productLocale=en-US',
+    'fontScale=1.3',
+    'density=Physical density: 440 Override density: 560 ',
+    'windowAnimationScale=0.0',
+    'transitionAnimationScale=0.0',
+    'animatorDurationScale=null',
+    'stayOnWhilePluggedIn=7',
+    'showTouches=1\r',
+  ].join('\n');
+  assert.deepEqual(parseDeviceSettings(output), {
+    nightMode: 'yes',
+    locale: 'ar-EG',
+    fontScale: 1.3,
+    density: 560,
+    windowAnimationScale: 0,
+    transitionAnimationScale: 0,
+    animatorDurationScale: 1,
+    stayOnWhilePluggedIn: 7,
+    showTouches: true,
+  });
+});
+
+test('parseDeviceSettings falls back to defaults for unset values', () => {
+  const settings = parseDeviceSettings(
+    'nightMode=\nlocale=\nproductLocale=en-US\nfontScale=null\ndensity=Physical density: 440 \nshowTouches=null\n'
+  );
+  assert.equal(settings.nightMode, 'no');
+  assert.equal(settings.locale, 'en-US');
+  assert.equal(settings.fontScale, 1);
+  assert.equal(settings.density, null);
+  assert.equal(settings.stayOnWhilePluggedIn, 0);
+  assert.equal(settings.showTouches, false);
+  assert.deepEqual(parseDensity('Physical density: 440\n'), { physical: 440, override: null });
+  assert.match(READ_SETTINGS_SCRIPT, /settings get global animator_duration_scale/);
+});
+
+test('buildSettingsCommands emits one command per change', () => {
+  assert.deepEqual(
+    buildSettingsCommands({
+      nightMode: 'yes',
+      fontScale: 1.5,
+      density: null,
+      windowAnimationScale: 0,
+      transitionAnimationScale: 0,
+      animatorDurationScale: 0,
+      stayOnWhilePluggedIn: 7,
+      showTouches: false,
+    }),
+    [
+      'cmd uimode night yes',
+      'settings put system font_scale 1.5',
+      'wm density reset',
+      'settings put global window_animation_scale 0',
+      'settings put global transition_animation_scale 0',
+      'settings put global animator_duration_scale 0',
+      'settings put global stay_on_while_plugged_in 7',
+      'settings put system show_touches 0',
+    ]
+  );
+  assert.deepEqual(buildSettingsCommands({ density: 420, locale: 'fr-FR' }), ['wm density 420']);
+});
+
+test('locale helpers normalize tags and build the restart command', () => {
+  assert.equal(normalizeLocale('pt_BR'), 'pt-BR');
+  assert.equal(normalizeLocale('zh-Hans-CN'), 'zh-Hans-CN');
+  assert.throws(() => normalizeLocale('en US; reboot'), /Invalid locale/);
+  assert.equal(
+    buildLocaleCommand('ar_EG'),
+    'setprop persist.sys.locale ar-EG && setprop ctl.restart zygote'
+  );
+});
+
+test('pickSettings keeps only the changed keys', () => {
+  const snapshot = parseDeviceSettings('fontScale=1.0\nshowTouches=0\n');
+  assert.deepEqual(pickSettings(snapshot, { fontScale: 2, showTouches: true, density: undefined }), {
+    fontScale: 1,
+    showTouches: false,
+  });
+});
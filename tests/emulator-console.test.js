@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  batteryCommands,
+  callArgs,
+  findConsoleError,
+  fingerprintArgs,
+  geoFixArgs,
+  networkCommands,
+  smsArgs,
+} from '../dist/emulator-console.js';
+
+test('geoFixArgs puts the longitude first and validates ranges', () => {
+  assert.deepEqual(geoFixArgs({ latitude: 52.52, longitude: 13.405 }), [
+    'geo',
+    'fix',
+    '13.405',
+    '52.52',
+  ]);
+  assert.deepEqual(geoFixArgs({ latitude: 0, longitude: 0, altitude: 34 }).slice(2), [
+    '0',
+    '0',
+    '34',
+  ]);
+  assert.throws(() => geoFixArgs({ latitude: 91, longitude: 0 }), /latitude/);
+  assert.throws(() => geoFixArgs({ latitude: 0, longitude: -181 }), /longitude/);
+});
+
+test('batteryCommands sets capacity, charger and status', () => {
+  assert.deepEqual(batteryCommands({ level: 15, charging: false }), [
+    ['power', 'capacity', '15'],
+    ['power', 'ac', 'off'],
+    ['power', 'status', 'discharging'],
+  ]);
+  assert.deepEqual(batteryCommands({ charging: true, status: 'full' }), [
+    ['power', 'ac', 'on'],
+    ['power', 'status', 'full'],
+  ]);
+  assert.throws(() => batteryCommands({}), /at least one/);
+  assert.throws(() => batteryCommands({ level: 101 }), /between 0 and 100/);
+});
+
+test('networkCommands, smsArgs, callArgs and fingerprintArgs build console commands', () => {
+  assert.deepEqual(networkCommands({ speed: 'edge', delay: 'gprs' }), [
+    ['network', 'speed', 'edge'],
+    ['network', 'delay', 'gprs'],
+  ]);
+  assert.deepEqual(smsArgs('+15551234', 'Your code\nis 1234'), [
+    'sms',
+    'send',
+    '+15551234',
+    'Your code is 1234',
+  ]);
+  assert.throws(() => smsArgs('bank', 'hi'), /Invalid phone number/);
+  assert.deepEqual(callArgs('incoming', '5551234'), ['gsm', 'call', '5551234']);
+  assert.deepEqual(callArgs('cancel', '5551234'), ['gsm', 'cancel', '5551234']);
+  assert.deepEqual(fingerprintArgs(2), ['finger', 'touch', '2']);
+  assert.throws(() => fingerprintArgs(0), /positive integer/);
+});
+
+test('findConsoleError reads KO replies', () => {
+  assert.equal(findConsoleError('OK\r\n'), null);
+  assert.equal(findConsoleError('KO: bad speed name, try \'help network speed\'\r\n'), "bad speed name, try 'help network speed'");
+  assert.equal(findConsoleError('KO\n'), 'Command rejected by the emulator console.');
+});
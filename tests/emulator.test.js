@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildEmulatorArgs,
+  isEmulatorSerial,
+  isQemuDevice,
+  nextFreePort,
+  parseAvdList,
+  parseAvdName,
+} from '../dist/emulator.js';
+
+test('parseAvdList skips emulator log lines', () => {
+  const output = [
+    'INFO    | Storing crashdata in: /tmp/android-user/emu-crash.db',
+    'Pixel_7_API_34',
+    'Medium_Phone_API_35',
+    '',
+  ].join('\n');
+  assert.deepEqual(parseAvdList(output), ['Pixel_7_API_34', 'Medium_Phone_API_35']);
+  assert.deepEqual(parseAvdList(''), []);
+});
+
+test('parseAvdName reads the console reply', () => {
+  assert.equal(parseAvdName('Pixel_7_API_34\r\nOK\r\n'), 'Pixel_7_API_34');
+  assert.equal(parseAvdName('OK\n'), null);
+});
+
+test('nextFreePort skips ports used by running emulators', () => {
+  assert.equal(nextFreePort([]), 5554);
+  assert.equal(nextFreePort(['emulator-5554', 'R58M123', 'emulator-5558']), 5556);
+  assert.equal(isEmulatorSerial('emulator-5554'), true);
+  assert.equal(isEmulatorSerial('192.168.1.5:5555'), false);
+});
+
+test('buildEmulatorArgs maps options to emulator flags', () => {
+  assert.deepEqual(buildEmulatorArgs({ avd: 'Pixel' }), ['-avd', 'Pixel']);
+  assert.deepEqual(
+    buildEmulatorArgs({ avd: 'Pixel', headless: true, wipeData: true, coldBoot: true, port: 5556 }),
+    ['-avd', 'Pixel', '-no-window', '-no-audio', '-no-boot-anim', '-wipe-data', '-no-snapshot-load', '-port', '5556']
+  );
+  assert.deepEqual(buildEmulatorArgs({ avd: 'Pixel', snapshot: 'clean' }), [
+    '-avd',
+    'Pixel',
+    '-snapshot',
+    'clean',
+  ]);
+  assert.throws(() => buildEmulatorArgs({ avd: 'Pixel', coldBoot: true, snapshot: 'x' }), /cannot be combined/);
+  assert.throws(() => buildEmulatorArgs({ avd: 'Pixel', port: 5555 }), /even number/);
+});
+
+test('isQemuDevice accepts either qemu property', () => {
+  assert.equal(isQemuDevice('1\n\n'), true);
+  assert.equal(isQemuDevice('\n1\n'), true);
+  assert.equal(isQemuDevice('\n\n'), false);
+});
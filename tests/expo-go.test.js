@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  compareVersions,
+  downloadApk,
+  pickLatestAndroidClient,
+  versionFromApkUrl,
+} from '../dist/expo/go.js';
+
+async function withApkServer(body, run) {
+  let requests = 0;
+  const server = createServer((req, res) => {
+    requests += 1;
+    if (req.url === '/missing.apk') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'application/vnd.android.package-archive' });
+    res.end(body);
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  try {
+    await run(`http://127.0.0.1:${port}`, () => requests);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+test('versionFromApkUrl reads the version from the release file name', () => {
+  assert.equal(
+    versionFromApkUrl(
+      'https://github.com/expo/expo-go-releases/releases/download/Expo-Go-54.0.6/Expo-Go-54.0.6.apk'
+    ),
+    '54.0.6'
+  );
+  assert.equal(versionFromApkUrl('http://localhost/expo.apk'), null);
+});
+
+test('compareVersions orders dotted versions numerically', () => {
+  assert.ok(compareVersions('54.0.10', '54.0.6') > 0);
+  assert.ok(compareVersions('53.0.0', '54.0.0') < 0);
+  assert.equal(compareVersions('54.0', '54.0.0'), 0);
+});
+
+test('pickLatestAndroidClient selects the highest SDK with an Android client', () => {
+  const release = pickLatestAndroidClient({
+    data: {
+      sdkVersions: {
+        '53.0.0': {
+          androidClientUrl: 'https://example.com/Expo-Go-2.33.0.apk',
+          androidClientVersion: '2.33.0',
+        },
+        '54.0.0': {
+          androidClientUrl: 'https://example.com/Expo-Go-54.0.6.apk',
+          androidClientVersion: '54.0.6',
+        },
+        '55.0.0': {},
+        UNVERSIONED: { androidClientUrl: 'https://example.com/dev.apk' },
+      },
+    },
+  });
+
+  assert.deepEqual(release, {
+    url: 'https://example.com/Expo-Go-54.0.6.apk',
+    version: '54.0.6',
+    sdkVersion: '54.0.0',
+  });
+  assert.throws(() => pickLatestAndroidClient({ data: {} }), /No SDK version/);
+});
+
+test('downloadApk saves to the cache and reuses it', async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), 'expo-android-test-'));
+  try {
+    await withApkServer('apk-bytes', async (baseUrl, requestCount) => {
+      const url = `${baseUrl}/Expo-Go-54.0.6.apk`;
+      const first = await downloadApk({ url, cacheDir });
+      assert.equal(first.cached, false);
+      assert.equal(first.path, join(cacheDir, 'Expo-Go-54.0.6.apk'));
+      assert.equal(await readFile(first.path, 'utf8'), 'apk-bytes');
+
+      const second = await downloadApk({ url, cacheDir });
+      assert.equal(second.cached, true);
+      assert.equal(requestCount(), 1);
+
+      const forced = await downloadApk({ url, cacheDir, force: true });
+      assert.equal(forced.cached, false);
+      assert.equal(requestCount(), 2);
+
+      await assert.rejects(
+        downloadApk({ url: `${baseUrl}/missing.apk`, cacheDir }),
+        /APK download failed \(404/
+      );
+    });
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
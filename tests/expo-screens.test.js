@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUIElements } from '../dist/ui-parser.js';
+import { classifyExpoScreen } from '../dist/expo/screens.js';
+
+function screen(nodes) {
+  const body = nodes
+    .map(
+      ({ text = '', cls = 'android.widget.TextView', clickable = false }) =>
+        `<node text="${text}" class="${cls}" clickable="${clickable}" bounds="[0,0][100,100]" />`
+    )
+    .join('');
+  return parseUIElements(`<hierarchy>${body}</hierarchy>`);
+}
+
+test('classifyExpoScreen treats bundle progress as loading', () => {
+  const elements = screen([
+    { text: 'Downloading JavaScript bundle' },
+    { text: '45%' },
+    { cls: 'android.widget.ProgressBar' },
+  ]);
+  assert.deepEqual(classifyExpoScreen(elements), {
+    state: 'loading',
+    errorText: null,
+  });
+});
+
+test('classifyExpoScreen extracts red-box error text', () => {
+  const elements = screen([
+    { text: 'Uncaught Error: boom' },
+    { text: 'at App.tsx:12' },
+    { text: 'Dismiss (ESC)', clickable: true },
+    { text: 'Reload (R, R)', clickable: true },
+  ]);
+  const result = classifyExpoScreen(elements);
+  assert.equal(result.state, 'error');
+  assert.equal(result.errorText, 'Uncaught Error: boom\nat App.tsx:12');
+});
+
+test('classifyExpoScreen reports app content as loaded', () => {
+  const elements = screen([
+    { text: 'Welcome' },
+    { text: 'Sign in', clickable: true },
+  ]);
+  assert.equal(classifyExpoScreen(elements).state, 'loaded');
+});
+
+test('classifyExpoScreen only treats text-less screens with a spinner as loading', () => {
+  const spinner = screen([
+    { cls: 'android.widget.FrameLayout' },
+    { cls: 'android.widget.ProgressBar' },
+  ]);
+  assert.equal(classifyExpoScreen(spinner).state, 'loading');
+  assert.equal(classifyExpoScreen([]).state, 'loading');
+
+  const canvas = screen([
+    { cls: 'android.widget.FrameLayout' },
+    { cls: 'android.view.TextureView' },
+  ]);
+  assert.equal(classifyExpoScreen(canvas).state, 'loaded');
+  assert.equal(classifyExpoScreen(screen([{ cls: 'android.widget.ImageView' }])).state, 'loaded');
+});
@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findLsError,
+  isSharedStorage,
+  mediaScanUri,
+  parseLsOutput,
+  remoteJoin,
+} from '../dist/files.js';
+
+test('parseLsOutput parses toybox ls -la output', () => {
+  const output = [
+    'total 24',
+    'drwxrws--- 6 u0_a123 media_rw 3452 2026-01-15 10:30 .',
+    'drwxrws--- 3 root media_rw 3452 2026-01-15 10:00 ..',
+    '-rw-rw---- 1 u0_a123 media_rw 12345 2026-01-15 10:31 my photo.png\r',
+    'drwxrws--- 2 u0_a123 media_rw 3452 2026-01-15 10:32 Download',
+    'lrw-r--r-- 1 root root 21 2026-01-15 10:33 sdcard -> /storage/self/primary',
+    'crw-rw-rw- 1 root root 1, 3 2026-01-15 10:34 null',
+    '-rw-rw----+ 1 u0_a123 media_rw 0 2026-01-15 10:35 .nomedia',
+  ].join('\n');
+  const entries = parseLsOutput(output);
+  assert.deepEqual(
+    entries.map(({ name, type, size }) => [name, type, size]),
+    [
+      ['my photo.png', 'file', 12345],
+      ['Download', 'directory', 3452],
+      ['sdcard', 'symlink', 21],
+      ['null', 'other', null],
+      ['.nomedia', 'file', 0],
+    ]
+  );
+  assert.deepEqual(entries[0], {
+    name: 'my photo.png',
+    type: 'file',
+    size: 12345,
+    mtime: '2026-01-15 10:31',
+    permissions: '-rw-rw----',
+    owner: 'u0_a123',
+    group: 'media_rw',
+    linkTarget: null,
+  });
+  assert.equal(entries[2].linkTarget, '/storage/self/primary');
+});
+
+test('parseLsOutput accepts the toolbox format without link counts', () => {
+  const entries = parseLsOutput(
+    'drwxrwx--x root sdcard_rw 2016-03-01 09:00 Alarms\n-rw-rw---- root sdcard_rw 42 2016-03-01 09:01 a.txt\n'
+  );
+  assert.deepEqual(
+    entries.map(({ name, type, size, owner }) => [name, type, size, owner]),
+    [
+      ['Alarms', 'directory', null, 'root'],
+      ['a.txt', 'file', 42, 'root'],
+    ]
+  );
+});
+
+test('file helpers detect errors and shared storage', () => {
+  assert.equal(
+    findLsError('ls: /sdcard/missing/: No such file or directory\n'),
+    '/sdcard/missing/: No such file or directory'
+  );
+  assert.equal(findLsError('total 0\n'), null);
+  assert.equal(isSharedStorage('/sdcard/Pictures/a.png'), true);
+  assert.equal(isSharedStorage('/storage/emulated/0'), true);
+  assert.equal(isSharedStorage('/data/local/tmp/a.png'), false);
+  assert.equal(mediaScanUri('/sdcard/Pictures/my photo.png'), 'file:///sdcard/Pictures/my%20photo.png');
+  assert.equal(mediaScanUri('/sdcard/a#b c.jpg'), 'file:///sdcard/a%23b%20c.jpg');
+  assert.equal(mediaScanUri('/sdcard/Why?/x?.png'), 'file:///sdcard/Why%3F/x%3F.png');
+  assert.equal(remoteJoin('/sdcard/Pictures/', 'a.png'), '/sdcard/Pictures/a.png');
+});
@@ -0,0 +1,164 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import {
+  describeStep,
+  parseFlow,
+  planStep,
+  substituteVariables,
+  toJUnitXml,
+} from '../dist/flow.js';
+import { runFlowFile } from '../dist/tools/flow.js';
+import { replayable } from '../dist/tools/recorder.js';
+
+test('parseFlow accepts a config document followed by steps', () => {
+  const flow = parseFlow(
+    [
+      'appId: com.example.app',
+      'name: Login',
+      'env:',
+      '  USER: alice',
+      '---',
+      '- launchApp',
+      '- tapOn: Log in',
+      '- inputText: ${USER}',
+      '- back',
+    ].join('\n')
+  );
+  assert.deepEqual(flow.config, {
+    name: 'Login',
+    appId: 'com.example.app',
+    env: { USER: 'alice' },
+  });
+  assert.deepEqual(flow.steps, [
+    { command: 'launchApp', value: null },
+    { command: 'tapOn', value: 'Log in' },
+    { command: 'inputText', value: '${USER}' },
+    { command: 'back', value: null },
+  ]);
+  assert.deepEqual(parseFlow('- back\n').steps, [{ command: 'back', value: null }]);
+  assert.equal(parseFlow('appId: a\nsteps:\n  - back\n').config.appId, 'a');
+  assert.throws(() => parseFlow('- swipeLeft\n'), /Step 1: unknown command "swipeLeft"/);
+  assert.throws(() => parseFlow('- tapOn: a\n  back: null\n'), /expected a single command/);
+});
+
+test('substituteVariables replaces nested values and rejects unknown names', () => {
+  assert.deepEqual(
+    substituteVariables({ text: 'Hi ${NAME}', list: ['${NAME}', 3] }, { NAME: 'Bo' }),
+    { text: 'Hi Bo', list: ['Bo', 3] }
+  );
+  assert.throws(() => substituteVariables('${MISSING}', {}), /Undefined variable \$\{MISSING\}/);
+});
+
+test('planStep maps flow commands onto tool calls', () => {
+  const options = { appId: 'com.example.app', baseDir: '/flows' };
+  const plan = (command, value = null) => planStep({ command, value }, options);
+
+  assert.deepEqual(plan('launchApp'), {
+    tool: 'openApp',
+    args: { packageName: 'com.example.app' },
+  });
+  assert.deepEqual(plan('tapOn', { id: 'login-button' }), {
+    tool: 'tapElement',
+    args: { resourceId: 'login-button' },
+  });
+  assert.deepEqual(plan('tapOn', { x: 10, y: 20 }), { tool: 'tap', args: { x: 10, y: 20 } });
+  assert.deepEqual(plan('assertNotVisible', 'Error'), {
+    tool: 'assertElement',
+    args: { text: 'Error', shouldExist: false },
+  });
+  assert.deepEqual(
+    plan('scrollUntilVisible', { element: 'Footer', direction: 'down', container: { id: 'list' } }),
+    {
+      tool: 'scrollToElement',
+      args: { text: 'Footer', direction: 'down', container: { resourceId: 'list' } },
+    }
+  );
+  assert.deepEqual(plan('waitFor', { text: 'Home', timeout: 5000 }), {
+    tool: 'waitForElement',
+    args: { text: 'Home', timeout: 5000 },
+  });
+  assert.deepEqual(plan('back'), { tool: 'keyEvent', args: { keyCode: 'KEYCODE_BACK' } });
+  assert.deepEqual(plan('screenshot', 'shots/home.png'), {
+    tool: 'screenshot',
+    args: { mode: 'path', path: '/flows/shots/home.png' },
+  });
+  assert.throws(
+    () => planStep({ command: 'launchApp', value: null }, { baseDir: '/' }),
+    /needs an appId/
+  );
+  assert.equal(describeStep({ command: 'tapOn', value: { id: 'a' } }), 'tapOn: {"id":"a"}');
+});
+
+test('toJUnitXml reports failures and skipped steps', () => {
+  const xml = toJUnitXml([
+    {
+      name: 'Login <smoke>',
+      path: '/flows/login.yaml',
+      passed: false,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      durationMs: 1500,
+      steps: [
+        { index: 1, flow: 'login.yaml', command: 'launchApp', description: 'launchApp', status: 'passed', durationMs: 1000 },
+        { index: 2, flow: 'login.yaml', command: 'tapOn', description: 'tapOn: "Go"', status: 'failed', durationMs: 500, message: 'No element & no match' },
+        { index: 3, flow: 'login.yaml', command: 'back', description: 'back', status: 'skipped', durationMs: 0 },
+      ],
+    },
+  ]);
+  assert.match(xml, /<testsuites name="expo-android" tests="3" failures="1" skipped="1" time="1.500">/);
+  assert.match(xml, /<testsuite name="Login &lt;smoke&gt;" tests="3"/);
+  assert.match(xml, /<testcase classname="login.yaml" name="1. launchApp" time="1.000" \/>/);
+  assert.match(xml, /name="2. tapOn: &quot;Go&quot;"/);
+  assert.match(xml, /<failure message="No element &amp; no match">/);
+  assert.match(xml, /<skipped \/>/);
+});
+
+test('runFlowFile fails steps whose args do not match the tool schema', async () => {
+  const calls = [];
+  replayable(
+    'waitForElement',
+    z.object({
+      text: z.string().optional(),
+      timeout: z.number().optional(),
+      serial: z.string().optional(),
+    }),
+    async (args) => {
+      calls.push(args);
+      return { content: [{ type: 'text', text: 'found' }], structuredContent: { found: true } };
+    }
+  );
+  const dir = await mkdtemp(join(tmpdir(), 'expo-android-flow-'));
+  try {
+    const path = join(dir, 'flow.yaml');
+    await writeFile(
+      path,
+      [
+        '- waitFor: {text: Home, timeout: 5000}',
+        '- waitFor: {text: Home, timeout: "5000"}',
+        '- waitFor: {txt: Home}',
+      ].join('\n')
+    );
+    const report = await runFlowFile(path);
+    assert.deepEqual(
+      report.steps.map((step) => step.status),
+      ['passed', 'failed', 'skipped']
+    );
+    assert.match(
+      report.steps[1].message,
+      /^waitFor: Invalid arguments for waitForElement: timeout: .*expected number/
+    );
+    assert.equal(calls.length, 1);
+
+    await writeFile(path, '- waitFor: {txt: Home}\n');
+    const unknownKey = await runFlowFile(path);
+    assert.equal(
+      unknownKey.steps[0].message,
+      'waitFor: Unknown arguments for waitForElement: txt'
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
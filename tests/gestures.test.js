@@ -0,0 +1,193 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildMotionEventScript,
+  buildSendeventScript,
+  elementSwipe,
+  interpolatePath,
+  motionEventCommands,
+  parseScreenSize,
+  parseTouchDevice,
+  pinchPaths,
+  rotatePaths,
+  swipeDuration,
+} from '../dist/gestures.js';
+
+const GETEVENT = `add device 1: /dev/input/event2
+  name:     "virtio_input_keyboard"
+  events:
+    KEY (0001): KEY_ESC KEY_1
+add device 2: /dev/input/event1
+  name:     "virtio_input_multi_touch_1"
+  events:
+    KEY (0001): BTN_TOUCH
+    ABS (0003): ABS_MT_SLOT           : value 0, min 0, max 9, fuzz 0, flat 0, resolution 0
+                ABS_MT_POSITION_X     : value 0, min 0, max 32767, fuzz 0, flat 0, resolution 0
+                ABS_MT_POSITION_Y     : value 0, min 0, max 32767, fuzz 0, flat 0, resolution 0
+                ABS_MT_TRACKING_ID    : value 0, min 0, max 10, fuzz 0, flat 0, resolution 0
+                ABS_MT_PRESSURE       : value 0, min 0, max 255, fuzz 0, flat 0, resolution 0
+  input props:
+    INPUT_PROP_DIRECT
+`;
+
+test('interpolatePath spaces points evenly along a polyline', () => {
+  assert.deepEqual(interpolatePath([{ x: 0, y: 0 }, { x: 100, y: 0 }], 4), [
+    { x: 0, y: 0 },
+    { x: 25, y: 0 },
+    { x: 50, y: 0 },
+    { x: 75, y: 0 },
+    { x: 100, y: 0 },
+  ]);
+  assert.deepEqual(
+    interpolatePath([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }], 2),
+    [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+    ]
+  );
+  assert.equal(interpolatePath([{ x: 5, y: 5 }], 3).length, 4);
+  assert.throws(() => interpolatePath([], 3), /at least one point/);
+});
+
+test('pinchPaths and rotatePaths place two fingers around the center', () => {
+  const [left, right] = pinchPaths({
+    center: { x: 500, y: 1000 },
+    startDistance: 400,
+    endDistance: 100,
+  });
+  assert.deepEqual(left, [{ x: 300, y: 1000 }, { x: 450, y: 1000 }]);
+  assert.deepEqual(right, [{ x: 700, y: 1000 }, { x: 550, y: 1000 }]);
+
+  const [first, second] = rotatePaths({
+    center: { x: 0, y: 0 },
+    radius: 100,
+    degrees: 90,
+    segments: 2,
+  });
+  assert.equal(Math.round(first[0].x), -100);
+  assert.equal(Math.round(second[0].x), 100);
+  assert.equal(Math.round(second[2].y), 100);
+});
+
+test('parseTouchDevice picks the direct multi-touch device', () => {
+  assert.deepEqual(parseTouchDevice(GETEVENT), {
+    path: '/dev/input/event1',
+    minX: 0,
+    maxX: 32767,
+    minY: 0,
+    maxY: 32767,
+    hasSlots: true,
+    hasPressure: true,
+    hasBtnTouch: true,
+  });
+  assert.equal(parseTouchDevice('add device 1: /dev/input/event0\n  name: "kbd"\n'), null);
+});
+
+test('parseScreenSize prefers the override size', () => {
+  assert.deepEqual(parseScreenSize('Physical size: 1080x2400\n'), { width: 1080, height: 2400 });
+  assert.deepEqual(
+    parseScreenSize('Physical size: 1080x2400\nOverride size: 720x1600\n'),
+    { width: 720, height: 1600 }
+  );
+  assert.equal(parseScreenSize('nope'), null);
+});
+
+test('buildMotionEventScript holds, moves and releases one pointer', () => {
+  const script = buildMotionEventScript(
+    [{ x: 10, y: 20 }, { x: 30, y: 40 }],
+    { holdMs: 500 }
+  );
+  assert.equal(
+    script,
+    'input motionevent DOWN 10 20 && sleep 0.500 && input motionevent MOVE 30 40 && input motionevent UP 30 40'
+  );
+});
+
+test('motionEventCommands puts DOWN first so it can run on its own', () => {
+  const [down, ...rest] = motionEventCommands([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+  assert.equal(down, 'input motionevent DOWN 1 2');
+  assert.deepEqual(rest, ['input motionevent MOVE 3 4', 'input motionevent UP 3 4']);
+});
+
+test('buildSendeventScript emits protocol B frames in device units', () => {
+  const device = parseTouchDevice(GETEVENT);
+  const screen = { width: 1000, height: 2000 };
+  const script = buildSendeventScript(
+    [
+      [{ x: 0, y: 0 }, { x: 500, y: 1000 }],
+      [{ x: 1000, y: 2000 }, { x: 500, y: 1000 }],
+    ],
+    device,
+    screen,
+    { frameDelayMs: 20 }
+  );
+  const lines = script.split(' && ');
+  const dev = '/dev/input/event1';
+  assert.deepEqual(lines.slice(0, 5), [
+    `sendevent ${dev} 3 47 0`,
+    `sendevent ${dev} 3 57 1`,
+    `sendevent ${dev} 3 58 50`,
+    `sendevent ${dev} 3 53 0`,
+    `sendevent ${dev} 3 54 0`,
+  ]);
+  assert.ok(lines.includes(`sendevent ${dev} 3 53 32767`));
+  assert.ok(lines.includes(`sendevent ${dev} 3 53 16384`));
+  assert.ok(lines.includes(`sendevent ${dev} 1 330 1`));
+  assert.ok(lines.includes('sleep 0.020'));
+  assert.deepEqual(lines.slice(-6), [
+    `sendevent ${dev} 3 47 0`,
+    `sendevent ${dev} 3 57 -1`,
+    `sendevent ${dev} 3 47 1`,
+    `sendevent ${dev} 3 57 -1`,
+    `sendevent ${dev} 1 330 0`,
+    `sendevent ${dev} 0 0 0`,
+  ]);
+
+  assert.throws(
+    () => buildSendeventScript([[{ x: 0, y: 0 }], []], device, screen),
+    /same number of points/
+  );
+  assert.throws(
+    () =>
+      buildSendeventScript([[{ x: 0, y: 0 }], [{ x: 1, y: 1 }]], { ...device, hasSlots: false }, screen),
+    /does not support multi-touch slots/
+  );
+});
+
+test('elementSwipe spans a percentage of the element inside the safe area', () => {
+  const bounds = { x1: 0, y1: 200, x2: 1080, y2: 1200 };
+  assert.deepEqual(elementSwipe(bounds, 'up', { percent: 50 }), {
+    x1: 540,
+    y1: 950,
+    x2: 540,
+    y2: 450,
+  });
+  assert.deepEqual(elementSwipe(bounds, 'left', { percent: 50 }), {
+    x1: 810,
+    y1: 700,
+    x2: 270,
+    y2: 700,
+  });
+
+  const screen = { width: 1080, height: 2400 };
+  assert.deepEqual(
+    elementSwipe({ x1: 0, y1: 0, x2: 1080, y2: 2400 }, 'down', {
+      percent: 100,
+      margin: 120,
+      screen,
+    }),
+    { x1: 540, y1: 120, x2: 540, y2: 2279 }
+  );
+  assert.deepEqual(
+    elementSwipe(bounds, 'right', { percent: 100, margin: 60, screen }),
+    { x1: 60, y1: 700, x2: 1019, y2: 700 }
+  );
+});
+
+test('swipeDuration derives the duration from speed presets or px/s', () => {
+  const coordinates = { x1: 0, y1: 0, x2: 0, y2: 1500 };
+  assert.equal(swipeDuration(coordinates, 'normal'), 1000);
+  assert.equal(swipeDuration(coordinates, 3000), 500);
+  assert.equal(swipeDuration({ x1: 0, y1: 0, x2: 0, y2: 10 }, 'fast'), 50);
+});
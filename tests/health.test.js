@@ -0,0 +1,97 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLogcat } from '../dist/logcat.js';
+import { parseUIElements } from '../dist/ui-parser.js';
+import {
+  detectCrashes,
+  detectErrorOverlay,
+  parseForegroundActivity,
+} from '../dist/health.js';
+
+function screen(texts) {
+  const body = texts
+    .map((text) => `<node text="${text}" bounds="[0,0][100,100]" />`)
+    .join('');
+  return parseUIElements(`<hierarchy>${body}</hierarchy>`);
+}
+
+const log = [
+  '1700000000.000  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main',
+  '1700000000.001  4321  4321 E AndroidRuntime: Process: com.app, PID: 4321',
+  '1700000000.002  4321  4321 E AndroidRuntime: java.lang.IllegalStateException: boom',
+  '1700000000.003  4321  4321 E AndroidRuntime: \tat com.app.Main.run(Main.java:10)',
+  '1700000001.000  5555  5555 E AndroidRuntime: FATAL EXCEPTION: main',
+  '1700000001.001  5555  5555 E AndroidRuntime: Process: com.other, PID: 5555',
+  '1700000002.000   612   640 E ActivityManager: ANR in com.app (com.app/.MainActivity)',
+  '1700000002.001   612   640 E ActivityManager: Reason: Input dispatching timed out',
+  '1700000003.000  4321  4400 F libc    : Fatal signal 11 (SIGSEGV), code 1, fault addr 0x0 in tid 4400 (mqt_js), pid 4321 (com.app)',
+  '1700000003.100  9000  9000 F DEBUG   : pid: 4321, tid: 4400, name: mqt_js  >>> com.app <<<',
+].join('\n');
+
+test('detectCrashes finds Java crashes, ANRs and native signals for a package', () => {
+  const events = detectCrashes(parseLogcat(log), 'com.app');
+  assert.deepEqual(
+    events.map((event) => event.type),
+    ['crash', 'anr', 'native']
+  );
+  assert.equal(events[0].message, 'java.lang.IllegalStateException: boom');
+  assert.equal(events[0].details.length, 3);
+  assert.deepEqual(events[1].details, ['Reason: Input dispatching timed out']);
+  assert.match(events[2].details[0], />>> com.app <<</);
+});
+
+test('parseForegroundActivity reads resumed activity and focus', () => {
+  assert.deepEqual(
+    parseForegroundActivity(
+      '  topResumedActivity=ActivityRecord{a1b2c3 u0 com.app/.MainActivity t42}'
+    ),
+    { packageName: 'com.app', activity: '.MainActivity' }
+  );
+  assert.deepEqual(
+    parseForegroundActivity(
+      '  mCurrentFocus=Window{9f u0 com.android.launcher3/com.android.launcher3.Launcher}'
+    ),
+    {
+      packageName: 'com.android.launcher3',
+      activity: 'com.android.launcher3.Launcher',
+    }
+  );
+  assert.equal(parseForegroundActivity(''), null);
+});
+
+test('detectErrorOverlay extracts LogBox message and stack', () => {
+  const overlay = detectErrorOverlay(
+    screen([
+      'Log 1 of 1',
+      'Render Error',
+      "Cannot read property 'name' of undefined",
+      'Source',
+      'Call Stack',
+      'Profile',
+      'screens/Profile.tsx',
+      'Dismiss',
+      'Minimize',
+    ])
+  );
+  assert.deepEqual(overlay, {
+    kind: 'logbox',
+    title: 'Render Error',
+    message: "Cannot read property 'name' of undefined",
+    stack: ['Profile', 'screens/Profile.tsx'],
+  });
+});
+
+test('detectErrorOverlay detects the classic red box', () => {
+  const overlay = detectErrorOverlay(
+    screen([
+      'Unable to load script.',
+      'index.bundle',
+      'Dismiss (ESC)',
+      'Reload (R, R)',
+    ])
+  );
+  assert.equal(overlay.kind, 'redbox');
+  assert.equal(overlay.message, 'Unable to load script.');
+  assert.deepEqual(overlay.stack, ['index.bundle']);
+  assert.equal(detectErrorOverlay(screen(['Home', 'Settings'])), null);
+});
@@ -0,0 +1,106 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildBroadcastCommand,
+  buildStartActivityCommand,
+  findAmError,
+  parseBroadcastResult,
+  parseLaunchTiming,
+  resolveIntentFlags,
+} from '../dist/intent.js';
+
+test('buildStartActivityCommand quotes data and typed extras', () => {
+  const command = buildStartActivityCommand({
+    action: 'android.intent.action.VIEW',
+    data: "myapp://item?id=1&name=it's",
+    component: 'com.app/.MainActivity',
+    categories: ['android.intent.category.BROWSABLE'],
+    flags: ['ACTIVITY_NEW_TASK', 'FLAG_ACTIVITY_CLEAR_TOP'],
+    extras: [
+      { key: 'title', type: 'string', value: 'Hello world' },
+      { key: 'count', type: 'int', value: 3 },
+      { key: 'enabled', type: 'bool', value: true },
+      { key: 'ts', type: 'long', value: '1700000000000' },
+      { key: 'tags', type: 'stringArray', value: ['a,b', 'c'] },
+    ],
+  });
+
+  assert.equal(
+    command,
+    [
+      'am start -W',
+      '-a android.intent.action.VIEW',
+      "-d 'myapp://item?id=1&name=it'\\''s'",
+      '-c android.intent.category.BROWSABLE',
+      '-n com.app/.MainActivity',
+      '-f 0x14000000',
+      "--es title 'Hello world'",
+      '--ei count 3',
+      '--ez enabled true',
+      '--el ts 1700000000000',
+      "--esa tags 'a\\,b,c'",
+    ].join(' ')
+  );
+});
+
+test('buildStartActivityCommand appends package when no component is set', () => {
+  assert.equal(
+    buildStartActivityCommand(
+      {
+        action: 'android.intent.action.VIEW',
+        data: 'exp://127.0.0.1:8081',
+        packageName: 'host.exp.exponent',
+      },
+      { wait: false, forceStop: true }
+    ),
+    'am start -S -a android.intent.action.VIEW -d exp://127.0.0.1:8081 host.exp.exponent'
+  );
+});
+
+test('buildBroadcastCommand supports receiver permission', () => {
+  assert.equal(
+    buildBroadcastCommand(
+      { action: 'com.app.PUSH', packageName: 'com.app' },
+      { receiverPermission: 'com.app.permission.C2D' }
+    ),
+    'am broadcast --receiver-permission com.app.permission.C2D -a com.app.PUSH com.app'
+  );
+});
+
+test('resolveIntentFlags rejects unknown names', () => {
+  assert.equal(resolveIntentFlags([0x1, '0x2']), 3);
+  assert.throws(() => resolveIntentFlags(['NOT_A_FLAG']), /Unknown intent flag/);
+});
+
+test('parseLaunchTiming and parseBroadcastResult read am output', () => {
+  const timing = parseLaunchTiming(
+    [
+      'Starting: Intent { act=android.intent.action.VIEW }',
+      'Status: ok',
+      'LaunchState: COLD',
+      'Activity: com.app/.MainActivity',
+      'TotalTime: 812',
+      'WaitTime: 820',
+      'Complete',
+    ].join('\n')
+  );
+  assert.deepEqual(timing, {
+    status: 'ok',
+    activity: 'com.app/.MainActivity',
+    thisTime: null,
+    totalTime: 812,
+    waitTime: 820,
+  });
+
+  assert.deepEqual(
+    parseBroadcastResult(
+      'Broadcasting: Intent { act=x }\nBroadcast completed: result=0'
+    ),
+    { completed: true, resultCode: 0, resultData: null }
+  );
+  assert.equal(
+    findAmError('Error: Activity not started, unable to resolve Intent'),
+    'Error: Activity not started, unable to resolve Intent'
+  );
+  assert.equal(findAmError('Status: ok'), null);
+});
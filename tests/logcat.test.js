@@ -0,0 +1,66 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyLogCursor,
+  filterLogEntries,
+  parseLogcat,
+  parseLogcatLine,
+} from '../dist/logcat.js';
+
+const output = [
+  '--------- beginning of main',
+  '1700000000.100  1234  1250 I ReactNativeJS: Running "main"',
+  '1700000000.200  1234  1250 W ReactNativeJS: Possible unhandled promise',
+  '1700000000.200   999   999 D ActivityManager: Start proc',
+  '1700000001.000  1234  1260 E AndroidRuntime: FATAL EXCEPTION: main',
+  '1700000001.000  1234  1260 F libc    : Fatal signal 11 (SIGSEGV)',
+].join('\n');
+
+test('parseLogcatLine parses threadtime epoch lines', () => {
+  assert.deepEqual(
+    parseLogcatLine('1700000000.100  1234  1250 I ReactNativeJS: a: b'),
+    {
+      epoch: 1700000000.1,
+      timestamp: '2023-11-14T22:13:20.100Z',
+      pid: 1234,
+      tid: 1250,
+      level: 'I',
+      tag: 'ReactNativeJS',
+      message: 'a: b',
+    }
+  );
+  assert.equal(parseLogcatLine('--------- beginning of main'), null);
+});
+
+test('filterLogEntries filters by pid, tag, priority and regex', () => {
+  const entries = parseLogcat(output);
+  assert.equal(entries.length, 5);
+  assert.equal(entries[4].tag, 'libc');
+
+  assert.equal(filterLogEntries(entries, { pids: [1234] }).length, 4);
+  assert.equal(filterLogEntries(entries, { tag: 'ReactNativeJS' }).length, 2);
+  assert.equal(filterLogEntries(entries, { minPriority: 'W' }).length, 3);
+  assert.equal(
+    filterLogEntries(entries, { pattern: 'SIGSEGV|promise' }).length,
+    2
+  );
+});
+
+test('applyLogCursor only returns lines after the previous call', () => {
+  const first = parseLogcat(output).slice(0, 3);
+  const initial = applyLogCursor(first);
+  assert.equal(initial.entries.length, 3);
+  assert.equal(initial.cursor.epoch, 1700000000.2);
+
+  // logcat -t <time> repeats lines at the cursor timestamp.
+  const next = applyLogCursor(parseLogcat(output).slice(1), initial.cursor);
+  assert.deepEqual(
+    next.entries.map((entry) => entry.tag),
+    ['AndroidRuntime', 'libc']
+  );
+  assert.equal(next.cursor.epoch, 1700000001);
+
+  const empty = applyLogCursor([], next.cursor);
+  assert.equal(empty.entries.length, 0);
+  assert.equal(empty.cursor, next.cursor);
+});
@@ -0,0 +1,120 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findPmFailure,
+  parseLaunchableActivity,
+  parsePackageInfo,
+  parsePackageList,
+  parsePackageVersion,
+} from '../dist/package-parser.js';
+
+const dump = [
+  'Packages:',
+  '  Package [host.exp.exponent] (5a1b2c3):',
+  '    userId=10153',
+  '    versionCode=245 minSdk=24 targetSdk=35',
+  '    versionName=54.0.6',
+  '  Package [com.other.app] (1f2e3d4):',
+  '    versionCode=7 minSdk=24 targetSdk=35',
+  '    versionName=1.0.0',
+].join('\n');
+
+test('parsePackageVersion reads versionName and versionCode', () => {
+  assert.deepEqual(parsePackageVersion(dump, 'host.exp.exponent'), {
+    packageName: 'host.exp.exponent',
+    installed: true,
+    versionName: '54.0.6',
+    versionCode: 245,
+  });
+  assert.equal(parsePackageVersion(dump, 'com.other.app').versionName, '1.0.0');
+});
+
+test('parsePackageVersion reports missing packages', () => {
+  assert.deepEqual(parsePackageVersion('Unable to find package', 'host.exp.exponent'), {
+    packageName: 'host.exp.exponent',
+    installed: false,
+    versionName: null,
+    versionCode: null,
+  });
+});
+
+const fullDump = [
+  'Activity Resolver Table:',
+  '  Non-Data Actions:',
+  '      android.intent.action.MAIN:',
+  '        1a2b3c com.other.app/.Main filter 4d5e6f',
+  '          Action: "android.intent.action.MAIN"',
+  '          Category: "android.intent.category.LAUNCHER"',
+  '        7a8b9c com.example.app/.SplashActivity filter 0d1e2f',
+  '          Action: "android.intent.action.MAIN"',
+  '          Category: "android.intent.category.DEFAULT"',
+  '        3a4b5c com.example.app/.MainActivity filter 6d7e8f',
+  '          Action: "android.intent.action.MAIN"',
+  '          Category: "android.intent.category.LAUNCHER"',
+  '',
+  'Packages:',
+  '  Package [com.example.app] (9f8e7d):',
+  '    userId=10201',
+  '    codePath=/data/app/~~abc==/com.example.app-xyz==',
+  '    versionCode=42 minSdk=24 targetSdk=34',
+  '    versionName=2.3.1',
+  '    firstInstallTime=2026-01-15 10:30:00',
+  '    lastUpdateTime=2026-02-01 08:00:00',
+  '    installerPackageName=com.android.vending',
+  '    requested permissions:',
+  '      android.permission.INTERNET',
+  '      android.permission.CAMERA',
+  '      android.permission.POST_NOTIFICATIONS',
+  '    install permissions:',
+  '      android.permission.INTERNET: granted=true',
+  '    User 0: ceDataInode=1234 installed=true hidden=false suspended=false stopped=false notLaunched=false enabled=0 instant=false',
+  '      runtime permissions:',
+  '        android.permission.CAMERA: granted=true, flags=[ USER_SET ]',
+  '        android.permission.POST_NOTIFICATIONS: granted=false, flags=[ USER_SENSITIVE_WHEN_GRANTED ]',
+  '      enabledComponents:',
+].join('\n');
+
+test('parsePackageInfo reads versions, times, permissions and the launcher', () => {
+  assert.deepEqual(parsePackageInfo(fullDump, 'com.example.app'), {
+    packageName: 'com.example.app',
+    installed: true,
+    versionName: '2.3.1',
+    versionCode: 42,
+    minSdk: 24,
+    targetSdk: 34,
+    firstInstallTime: '2026-01-15 10:30:00',
+    lastUpdateTime: '2026-02-01 08:00:00',
+    installerPackageName: 'com.android.vending',
+    codePath: '/data/app/~~abc==/com.example.app-xyz==',
+    enabled: true,
+    launchableActivity: 'com.example.app/.MainActivity',
+    requestedPermissions: [
+      'android.permission.INTERNET',
+      'android.permission.CAMERA',
+      'android.permission.POST_NOTIFICATIONS',
+    ],
+    grantedPermissions: ['android.permission.CAMERA', 'android.permission.INTERNET'],
+    deniedPermissions: ['android.permission.POST_NOTIFICATIONS'],
+  });
+  assert.equal(parseLaunchableActivity(fullDump, 'com.missing'), null);
+  assert.equal(parsePackageInfo('', 'com.missing').installed, false);
+});
+
+test('parsePackageList reads names and optional version codes', () => {
+  assert.deepEqual(
+    parsePackageList('package:com.a versionCode:12\r\npackage:com.b\n\n'),
+    [
+      { packageName: 'com.a', versionCode: 12 },
+      { packageName: 'com.b', versionCode: null },
+    ]
+  );
+});
+
+test('findPmFailure extracts pm failure reasons', () => {
+  assert.equal(findPmFailure('Performing Streamed Install\nSuccess'), null);
+  assert.equal(
+    findPmFailure('adb: failed to install a.apk: Failure [INSTALL_FAILED_VERSION_DOWNGRADE]'),
+    'Failure [INSTALL_FAILED_VERSION_DOWNGRADE]'
+  );
+  assert.equal(findPmFailure('Failed'), 'Failed');
+});
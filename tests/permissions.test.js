@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  chooseDialogButton,
+  detectPermissionDialog,
+  normalizePermission,
+  parseAppOps,
+} from '../dist/permissions.js';
+import { parseUIElements } from '../dist/ui-parser.js';
+
+function node(resourceId, text, bounds) {
+  return `<node index="0" text="${text}" resource-id="${resourceId}" class="android.widget.Button" content-desc="" checkable="false" checked="false" clickable="true" long-clickable="false" enabled="true" focused="false" scrollable="false" selected="false" bounds="${bounds}" />`;
+}
+
+function dialogXml(buttons) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<hierarchy rotation="0">',
+    '<node index="0" text="" resource-id="" class="android.widget.FrameLayout" content-desc="" checkable="false" checked="false" clickable="false" long-clickable="false" enabled="true" focused="false" scrollable="false" selected="false" bounds="[0,0][1080,2400]">',
+    node('com.android.permissioncontroller:id/permission_message', 'Allow Example to take pictures and record video?', '[100,900][980,1000]'),
+    ...buttons.map(([id, text], index) =>
+      node(`com.android.permissioncontroller:id/${id}`, text, `[100,${1100 + index * 120}][980,${1200 + index * 120}]`)
+    ),
+    '</node>',
+    '</hierarchy>',
+  ].join('\n');
+}
+
+test('detectPermissionDialog finds the permission controller buttons', () => {
+  const elements = parseUIElements(
+    dialogXml([
+      ['permission_allow_foreground_only_button', 'While using the app'],
+      ['permission_allow_one_time_button', 'Only this time'],
+      ['permission_deny_button', "Don't allow"],
+    ])
+  );
+  const dialog = detectPermissionDialog(elements);
+  assert.equal(dialog.packageName, 'com.android.permissioncontroller');
+  assert.equal(dialog.message, 'Allow Example to take pictures and record video?');
+  assert.deepEqual(Object.keys(dialog.buttons).sort(), ['allowForeground', 'allowOnce', 'deny']);
+
+  assert.equal(chooseDialogButton(dialog, 'allow').button, 'allowForeground');
+  assert.equal(chooseDialogButton(dialog, 'allowWhileUsing').element.text, 'While using the app');
+  assert.equal(chooseDialogButton(dialog, 'deny').button, 'deny');
+
+  assert.equal(detectPermissionDialog(parseUIElements(dialogXml([]))), null);
+});
+
+test('chooseDialogButton prefers allow on older dialogs', () => {
+  const dialog = detectPermissionDialog(
+    parseUIElements(
+      dialogXml([
+        ['permission_allow_button', 'Allow'],
+        ['permission_deny_button', 'Deny'],
+      ])
+    )
+  );
+  assert.equal(chooseDialogButton(dialog, 'allowWhileUsing').button, 'allow');
+});
+
+test('permission helpers normalize names and parse appops output', () => {
+  assert.equal(normalizePermission('camera'), 'android.permission.CAMERA');
+  assert.equal(normalizePermission('com.example.CUSTOM'), 'com.example.CUSTOM');
+  assert.deepEqual(
+    parseAppOps('Uid mode: COARSE_LOCATION: foreground\nCAMERA: allow; time=+1m2s ago\nRECORD_AUDIO: ignore\n'),
+    [
+      { op: 'CAMERA', mode: 'allow' },
+      { op: 'RECORD_AUDIO', mode: 'ignore' },
+    ]
+  );
+});
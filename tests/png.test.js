@@ -0,0 +1,104 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateSync } from 'node:zlib';
+import { clampRect, createImage, cropImage, decodePng, encodePng } from '../dist/png.js';
+
+// Builds a PNG from already-filtered scanlines; decodePng does not check CRCs.
+function rawPng({ width, height, bitDepth, colorType, rows, palette, trns }) {
+  const chunk = (type, body) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), body, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...(palette ? [chunk('PLTE', Buffer.from(palette))] : []),
+    ...(trns ? [chunk('tRNS', Buffer.from(trns))] : []),
+    chunk('IDAT', deflateSync(Buffer.from(rows.flat()))),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+test('encodePng output decodes back to the same pixels', () => {
+  const image = createImage(3, 2);
+  image.data.set([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 128,
+    10, 20, 30, 255, 10, 20, 30, 255, 200, 100, 50, 0,
+  ]);
+  const decoded = decodePng(encodePng(image));
+  assert.equal(decoded.width, 3);
+  assert.equal(decoded.height, 2);
+  assert.deepEqual([...decoded.data], [...image.data]);
+});
+
+test('decodePng handles RGB rows with up, average and paeth filters', () => {
+  const png = rawPng({
+    width: 2,
+    height: 3,
+    bitDepth: 8,
+    colorType: 2,
+    rows: [
+      [0, 10, 20, 30, 40, 50, 60],
+      [2, 1, 1, 1, 1, 1, 1],
+      [4, 0, 0, 0, 0, 0, 0],
+    ],
+  });
+  const { data } = decodePng(png);
+  assert.deepEqual([...data.subarray(0, 8)], [10, 20, 30, 255, 40, 50, 60, 255]);
+  assert.deepEqual([...data.subarray(8, 16)], [11, 21, 31, 255, 41, 51, 61, 255]);
+  assert.deepEqual([...data.subarray(16, 24)], [11, 21, 31, 255, 41, 51, 61, 255]);
+
+  const averaged = rawPng({
+    width: 2,
+    height: 1,
+    bitDepth: 8,
+    colorType: 0,
+    rows: [[3, 100, 10]],
+  });
+  assert.deepEqual([...decodePng(averaged).data], [100, 100, 100, 255, 60, 60, 60, 255]);
+});
+
+test('decodePng expands palettes, transparency and low bit depths', () => {
+  const paletted = rawPng({
+    width: 3,
+    height: 1,
+    bitDepth: 2,
+    colorType: 3,
+    rows: [[0, 0b00011000]],
+    palette: [255, 0, 0, 0, 255, 0, 0, 0, 255],
+    trns: [0],
+  });
+  assert.deepEqual(
+    [...decodePng(paletted).data],
+    [255, 0, 0, 0, 0, 255, 0, 255, 0, 0, 255, 255]
+  );
+
+  const gray = rawPng({ width: 2, height: 1, bitDepth: 1, colorType: 0, rows: [[0, 0b01000000]] });
+  assert.deepEqual([...decodePng(gray).data], [0, 0, 0, 255, 255, 255, 255, 255]);
+
+  assert.throws(() => decodePng(Buffer.from('nope')), /Not a PNG/);
+});
+
+test('cropImage copies the clamped rectangle', () => {
+  const image = createImage(4, 3);
+  for (let index = 0; index < 12; index += 1) image.data[index * 4] = index;
+
+  const cropped = cropImage(image, { x: 1, y: 1, width: 2, height: 2 });
+  assert.equal(cropped.width, 2);
+  assert.equal(cropped.height, 2);
+  assert.deepEqual([0, 1, 2, 3].map((pixel) => cropped.data[pixel * 4]), [5, 6, 9, 10]);
+
+  assert.deepEqual(clampRect({ x: -10, y: 1.5, width: 12, height: 10 }, 4, 3), {
+    x: 0,
+    y: 1,
+    width: 2,
+    height: 2,
+  });
+  assert.throws(() => cropImage(image, { x: 10, y: 0, width: 2, height: 2 }), /outside the 4x3 image/);
+});
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findMissingReverse,
+  parsePortMappings,
+  toSocketSpec,
+} from '../dist/ports.js';
+
+test('toSocketSpec normalizes ports and specs', () => {
+  assert.equal(toSocketSpec(8081), 'tcp:8081');
+  assert.equal(toSocketSpec('19000'), 'tcp:19000');
+  assert.equal(
+    toSocketSpec('localabstract:chrome_devtools_remote'),
+    'localabstract:chrome_devtools_remote'
+  );
+  assert.throws(() => toSocketSpec(70000), /Invalid port/);
+  assert.throws(() => toSocketSpec('nope'), /Invalid socket spec/);
+});
+
+test('parsePortMappings orders device and host per mapping type', () => {
+  const reverse = parsePortMappings('UsbFfs tcp:8081 tcp:8082\n', 'reverse');
+  assert.deepEqual(reverse, [
+    {
+      type: 'reverse',
+      transport: 'UsbFfs',
+      device: 'tcp:8081',
+      host: 'tcp:8082',
+    },
+  ]);
+
+  const forward = parsePortMappings(
+    'emulator-5554 tcp:9222 localabstract:devtools\nemulator-5556 tcp:1 tcp:2\n',
+    'forward'
+  );
+  assert.equal(forward.length, 2);
+  assert.equal(forward[0].host, 'tcp:9222');
+  assert.equal(forward[0].device, 'localabstract:devtools');
+});
+
+test('findMissingReverse reports ports without a reverse mapping', () => {
+  const mappings = parsePortMappings('host-5 tcp:8081 tcp:8081', 'reverse');
+  assert.deepEqual(findMissingReverse(mappings, [8081, 19000]), [19000]);
+  assert.deepEqual(findMissingReverse([], [8081]), [8081]);
+});
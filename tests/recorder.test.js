@@ -0,0 +1,126 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+import {
+  coordinateTapStep,
+  elementAtPoint,
+  parseScript,
+  scriptFormat,
+  selectorFor,
+  serializeScript,
+  stepFailure,
+} from '../dist/recorder.js';
+import { getReplayHandler, replayable } from '../dist/tools/recorder.js';
+import { parseUIElements } from '../dist/ui-parser.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const nestedFixturePath = join(__dirname, 'fixtures', 'nested-ui.xml');
+
+async function loadElements() {
+  return parseUIElements(await readFile(nestedFixturePath, 'utf8'));
+}
+
+test('elementAtPoint returns the deepest element under the point', async () => {
+  const elements = await loadElements();
+  assert.equal(elementAtPoint(elements, 970, 300).resourceId, 'settings-private-switch');
+  assert.equal(elementAtPoint(elements, 320, 300).text, 'Private account');
+  assert.equal(elementAtPoint(elements, 100, 700).nodeId, 8);
+  assert.equal(elementAtPoint(elements, 5000, 5000), null);
+});
+
+test('selectorFor prefers unique ids and texts and falls back to an index', async () => {
+  const elements = await loadElements();
+  const toggle = elements.find((element) => element.resourceId === 'settings-private-switch');
+  assert.deepEqual(selectorFor(elements, toggle), {
+    criteria: { resourceId: 'settings-private-switch' },
+  });
+
+  const duplicated = elements.map((element) =>
+    element.text === 'Private account' ? { ...element, text: 'Notifications' } : element
+  );
+  const second = duplicated.find((element) => element.nodeId === 6);
+  assert.deepEqual(selectorFor(duplicated, second), {
+    criteria: { text: 'Notifications' },
+    index: 1,
+  });
+
+  const row = elements.find((element) => element.nodeId === 8);
+  assert.equal(selectorFor(elements, row), null);
+});
+
+test('coordinateTapStep records an element selector when one exists', async () => {
+  const elements = await loadElements();
+  assert.deepEqual(coordinateTapStep(elements, 540, 700), {
+    tool: 'tapElement',
+    args: { text: 'Save', preferClickable: false, tapClickableAncestor: false },
+    coordinates: { x: 540, y: 700 },
+    element: {
+      text: 'Save',
+      resourceId: '',
+      contentDesc: '',
+      class: 'android.widget.TextView',
+      path: '/FrameLayout[0]/ViewGroup[0]/ViewGroup[2]/TextView[0]',
+    },
+  });
+
+  const raw = coordinateTapStep(elements, 100, 700);
+  assert.equal(raw.tool, 'tap');
+  assert.deepEqual(raw.args, { x: 100, y: 700 });
+  assert.equal(raw.element.class, 'android.view.ViewGroup');
+});
+
+test('serializeScript and parseScript round-trip JSON and YAML', () => {
+  const script = {
+    version: 1,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    steps: [
+      { tool: 'openApp', args: { packageName: 'com.example.app' } },
+      { tool: 'tapElement', args: { text: 'Log in' }, coordinates: { x: 10, y: 20 } },
+    ],
+  };
+  assert.equal(scriptFormat('/tmp/flow.json'), 'json');
+  assert.equal(scriptFormat('/tmp/flow.yml'), 'yaml');
+  for (const format of ['json', 'yaml']) {
+    assert.deepEqual(parseScript(serializeScript(script, format), format), script);
+  }
+  assert.deepEqual(parseScript('steps:\n  - tool: keyEvent\n', 'yaml').steps, [
+    { tool: 'keyEvent', args: {} },
+  ]);
+  assert.throws(() => parseScript('steps:\n  - args: {}\n', 'yaml'), /Step 1 is missing a tool name/);
+  assert.throws(() => parseScript('{}', 'json'), /steps array/);
+});
+
+test('stepFailure detects soft failures in tool results', () => {
+  const result = (data) => ({
+    content: [{ type: 'text', text: 'message' }],
+    structuredContent: data,
+  });
+  assert.equal(stepFailure(result({ tapped: true })), null);
+  assert.equal(stepFailure(result({ found: false })), 'message');
+  assert.equal(stepFailure(result({ passed: false })), 'message');
+  assert.equal(stepFailure({ ...result({}), isError: true }), 'message');
+});
+
+test('replay handlers validate args against the tool schema', async () => {
+  const calls = [];
+  replayable(
+    'probeTap',
+    z.object({ x: z.number(), y: z.number(), serial: z.string().optional() }),
+    async (args) => {
+      calls.push(args);
+      return { content: [{ type: 'text', text: 'tapped' }] };
+    }
+  );
+  const handler = getReplayHandler('probeTap');
+  await handler({ x: 1, y: 2, serial: 'emulator-5554' });
+  assert.deepEqual(calls, [{ x: 1, y: 2, serial: 'emulator-5554' }]);
+  await assert.rejects(
+    handler({ x: '0; reboot', y: 1 }),
+    /Invalid arguments for probeTap: x: .*expected number/
+  );
+  await assert.rejects(handler({ x: 1, y: 2, z: 3 }), /Unknown arguments for probeTap: z/);
+  assert.equal(calls.length, 1);
+});
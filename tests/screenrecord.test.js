@@ -0,0 +1,117 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { access, chmod, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  buildRecordLoopScript,
+  buildScreenRecordArgs,
+  buildStopScript,
+  localSegmentPaths,
+  parseSegmentList,
+  segmentCount,
+} from '../dist/screenrecord.js';
+
+test('buildScreenRecordArgs validates and formats options', () => {
+  assert.deepEqual(buildScreenRecordArgs({}), ['--time-limit', '180']);
+  assert.deepEqual(buildScreenRecordArgs({ size: '720x1280', bitRate: 4000000, timeLimit: 60 }), [
+    '--size',
+    '720x1280',
+    '--bit-rate',
+    '4000000',
+    '--time-limit',
+    '60',
+  ]);
+  assert.throws(() => buildScreenRecordArgs({ size: '720' }), /Invalid size/);
+  assert.throws(() => buildScreenRecordArgs({ timeLimit: 181 }), /between 1 and 180/);
+});
+
+test('segmentCount chains recordings past the time limit', () => {
+  assert.equal(segmentCount({}), 1);
+  assert.equal(segmentCount({ maxDuration: 600 }), 4);
+  assert.equal(segmentCount({ timeLimit: 60, maxDuration: 60 }), 1);
+  assert.equal(segmentCount({ timeLimit: 60, maxDuration: 61 }), 2);
+});
+
+test('buildRecordLoopScript detaches a numbered segment loop', () => {
+  const script = buildRecordLoopScript('/sdcard/rec', { timeLimit: 60, maxDuration: 120 });
+  assert.equal(
+    script,
+    "nohup sh -c 'i=0; while [ $i -lt 2 ]; do screenrecord --time-limit 60 /sdcard/rec-$i.mp4 || break; i=$((i+1)); done' > /sdcard/rec.log 2>&1 < /dev/null & echo $!"
+  );
+  assert.match(buildStopScript(42), /pgrep -P 42 screenrecord\); kill 42 .*kill -INT \$c/);
+});
+
+test('parseSegmentList orders segments numerically and ignores other files', () => {
+  const output = '/sdcard/rec-10.mp4\r\n/sdcard/rec-2.mp4\n/sdcard/rec-0.mp4\n/sdcard/other-1.mp4\n';
+  assert.deepEqual(parseSegmentList(output, '/sdcard/rec'), [
+    '/sdcard/rec-0.mp4',
+    '/sdcard/rec-2.mp4',
+    '/sdcard/rec-10.mp4',
+  ]);
+});
+
+test('localSegmentPaths numbers multiple segments', () => {
+  assert.deepEqual(localSegmentPaths('/tmp/bug.mp4', 1), ['/tmp/bug.mp4']);
+  assert.deepEqual(localSegmentPaths('/tmp/bug.mp4', 2), ['/tmp/bug-1.mp4', '/tmp/bug-2.mp4']);
+  assert.deepEqual(localSegmentPaths('/tmp/bug', 2), ['/tmp/bug-1.mp4', '/tmp/bug-2.mp4']);
+});
+
+// A stand-in adb that records its calls and fails `pull` while fail-pull exists.
+const FAKE_ADB = `#!/bin/sh
+dir=$(dirname "$0")
+[ "$1" = "-s" ] && shift 2
+echo "$*" >> "$dir/calls.log"
+case "$1" in
+  devices) printf 'List of devices attached\\nemulator-5554 device product:sdk model:sdk transport_id:1\\n' ;;
+  pull)
+    if [ -f "$dir/fail-pull" ]; then echo 'adb: error: failed to copy' >&2; exit 1; fi
+    touch "$3" ;;
+  shell)
+    case "$2" in
+      nohup*) echo 4242 ;;
+      kill\\ -0*) echo running ;;
+      ls\\ *) p=\${2#ls }; echo "\${p%%-\\**}-0.mp4" ;;
+    esac ;;
+esac
+`;
+
+test('stopScreenRecord keeps the segments and session when a pull fails', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'expo-android-rec-'));
+  try {
+    const adbPath = join(dir, 'adb');
+    await writeFile(adbPath, FAKE_ADB);
+    await chmod(adbPath, 0o755);
+    await writeFile(join(dir, 'fail-pull'), '');
+    process.env.ADB_PATH = adbPath;
+    delete process.env.ADB_SERIAL;
+    const { registerScreenRecordTools } = await import('../dist/tools/screenrecord.js');
+    const handlers = {};
+    registerScreenRecordTools({
+      registerTool: (name, _config, handler) => {
+        handlers[name] = handler;
+      },
+    });
+
+    await handlers.startScreenRecord({ serial: 'emulator-5554' });
+    const output = join(dir, 'out.mp4');
+    await assert.rejects(
+      handlers.stopScreenRecord({ path: output, serial: 'emulator-5554' }),
+      /Could not pull .*-0\.mp4; call stopScreenRecord again to retry\. .*adb: error: failed to copy/s
+    );
+    const calls = () => readFile(join(dir, 'calls.log'), 'utf8');
+    assert.doesNotMatch(await calls(), /rm -f/);
+
+    await rm(join(dir, 'fail-pull'));
+    const result = await handlers.stopScreenRecord({ path: output, serial: 'emulator-5554' });
+    assert.deepEqual(result.structuredContent.paths, [output]);
+    await access(output);
+    assert.match(await calls(), /shell rm -f \/sdcard\/expo-android-rec-\d+-\*\.mp4/);
+    await assert.rejects(
+      handlers.stopScreenRecord({ serial: 'emulator-5554' }),
+      /No screen recording in progress/
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
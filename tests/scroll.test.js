@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import {
+  collectPageItems,
+  containerSignature,
+  isFullyVisible,
+  isWithinBounds,
+  mergeCollected,
+  scrollSwipe,
+} from '../dist/scroll.js';
+import { parseUIElements } from '../dist/ui-parser.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const nestedFixturePath = join(__dirname, 'fixtures', 'nested-ui.xml');
+
+async function loadElements() {
+  return parseUIElements(await readFile(nestedFixturePath, 'utf8'));
+}
+
+test('scrollSwipe stays inside the container and moves against the direction', () => {
+  const bounds = { x1: 0, y1: 200, x2: 1080, y2: 2200 };
+  assert.deepEqual(scrollSwipe(bounds, 'down'), { x1: 540, y1: 1800, x2: 540, y2: 600 });
+  assert.deepEqual(scrollSwipe(bounds, 'up'), { x1: 540, y1: 600, x2: 540, y2: 1800 });
+  assert.deepEqual(scrollSwipe(bounds, 'right', 0.5), { x1: 810, y1: 1200, x2: 270, y2: 1200 });
+  assert.deepEqual(scrollSwipe(bounds, 'left', 0.5), { x1: 270, y1: 1200, x2: 810, y2: 1200 });
+});
+
+test('isWithinBounds rejects partially clipped and empty bounds', () => {
+  const outer = { x1: 0, y1: 200, x2: 1080, y2: 2200 };
+  assert.equal(isWithinBounds({ x1: 10, y1: 300, x2: 100, y2: 400 }, outer), true);
+  assert.equal(isWithinBounds({ x1: 10, y1: 150, x2: 100, y2: 400 }, outer), false);
+  assert.equal(isWithinBounds({ x1: 10, y1: 300, x2: 10, y2: 400 }, outer), false);
+});
+
+test('isFullyVisible checks descendants against the container bounds', async () => {
+  const elements = await loadElements();
+  const container = elements.find((element) => element.scrollable);
+  const save = elements.find((element) => element.text === 'Save');
+  assert.equal(isFullyVisible(save, container), true);
+
+  const clipped = { ...save, bounds: { ...save.bounds, y2: 2300 } };
+  assert.equal(isFullyVisible(clipped, container), false);
+  assert.equal(isFullyVisible(elements[0], container), true);
+});
+
+test('containerSignature only changes with the container contents', async () => {
+  const elements = await loadElements();
+  const container = elements.find((element) => element.scrollable);
+  const before = containerSignature(elements, container);
+  assert.equal(containerSignature(elements.slice(), container), before);
+
+  const scrolled = elements.map((element) =>
+    element.text === 'Save' ? { ...element, text: 'Delete account' } : element
+  );
+  assert.notEqual(containerSignature(scrolled, container), before);
+});
+
+test('collectPageItems orders rows and keys them independently of scroll offset', async () => {
+  const elements = await loadElements();
+  const container = elements.find((element) => element.scrollable);
+  const rows = elements.filter((element) => element.parentId === container.nodeId);
+
+  const page = collectPageItems(elements, [...rows].reverse(), container, 'down');
+  assert.deepEqual(page.map((item) => item.element.nodeId), [2, 5, 8]);
+  assert.deepEqual(page[0].texts, ['Private account']);
+
+  const shift = (element) => ({
+    ...element,
+    bounds: { ...element.bounds, y1: element.bounds.y1 - 150, y2: element.bounds.y2 - 150 },
+  });
+  const shifted = elements.map((element) => (element.nodeId === 1 ? element : shift(element)));
+  const shiftedRows = shifted.filter((element) => element.parentId === container.nodeId);
+  const shiftedPage = collectPageItems(shifted, shiftedRows, container, 'down');
+  assert.deepEqual(
+    shiftedPage.map((item) => item.key),
+    page.map((item) => item.key)
+  );
+
+  const upward = collectPageItems(elements, rows, container, 'up');
+  assert.deepEqual(upward.map((item) => item.element.nodeId), [8, 5, 2]);
+});
+
+test('mergeCollected appends pages after their overlap', () => {
+  const items = (...keys) => keys.map((key) => ({ key, element: null, texts: [] }));
+  const keys = (collected) => collected.map((item) => item.key);
+
+  assert.deepEqual(keys(mergeCollected([], items('A', 'B'))), ['A', 'B']);
+  assert.deepEqual(
+    keys(mergeCollected(items('A', 'B', 'C'), items('B', 'C', 'D'))),
+    ['A', 'B', 'C', 'D']
+  );
+  assert.deepEqual(
+    keys(mergeCollected(items('A', 'X', 'X'), items('X', 'X', 'B'))),
+    ['A', 'X', 'X', 'B']
+  );
+  assert.deepEqual(
+    keys(mergeCollected(items('A', 'B'), items('C', 'A'))),
+    ['A', 'B', 'C']
+  );
+});
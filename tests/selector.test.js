@@ -0,0 +1,88 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { parseSelector, selectElements } from '../dist/selector.js';
+import { findElements, parseUIElements } from '../dist/ui-parser.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const nestedFixturePath = join(__dirname, 'fixtures', 'nested-ui.xml');
+
+async function loadElements() {
+  return parseUIElements(await readFile(nestedFixturePath, 'utf8'));
+}
+
+function ids(elements) {
+  return elements.map((element) => element.nodeId);
+}
+
+test('selectElements supports absolute, descendant and bare paths', async () => {
+  const elements = await loadElements();
+  assert.deepEqual(ids(selectElements(elements, '/FrameLayout')), [0]);
+  assert.deepEqual(ids(selectElements(elements, '/FrameLayout/ViewGroup/ViewGroup')), [2, 5, 8]);
+  assert.deepEqual(ids(selectElements(elements, '//Switch')), [4, 7]);
+  assert.deepEqual(ids(selectElements(elements, 'android.widget.Switch')), [4, 7]);
+  assert.deepEqual(ids(selectElements(elements, "//node[@text='Save']")), [9]);
+});
+
+test('selectElements evaluates attribute predicates and functions', async () => {
+  const elements = await loadElements();
+  assert.deepEqual(
+    ids(selectElements(elements, "//Switch[@resource-id='settings-private-switch']")),
+    [4]
+  );
+  assert.deepEqual(ids(selectElements(elements, '//Switch[@checked]')), [7]);
+  assert.deepEqual(
+    ids(selectElements(elements, "//*[contains(@text, 'account') or starts-with(text(), 'Notif')]")),
+    [3, 6]
+  );
+  assert.deepEqual(
+    ids(selectElements(elements, "//TextView[matches(@text, '^s', 'i') and not(@clickable)]")),
+    [9]
+  );
+});
+
+test('selectElements walks parent and sibling axes', async () => {
+  const elements = await loadElements();
+  assert.deepEqual(
+    ids(selectElements(elements, "//TextView[@text='Notifications']/following-sibling::Switch")),
+    [7]
+  );
+  assert.deepEqual(ids(selectElements(elements, "//Switch[@checked='true']/..")), [5]);
+  assert.deepEqual(
+    ids(selectElements(elements, "//ViewGroup[TextView[@text='Save']]")),
+    [8]
+  );
+  assert.deepEqual(
+    ids(selectElements(elements, "//Switch/ancestor::ViewGroup[@scrollable='true']")),
+    [1]
+  );
+});
+
+test('selectElements applies positional indexes per context node', async () => {
+  const elements = await loadElements();
+  assert.deepEqual(ids(selectElements(elements, '//ViewGroup/TextView[1]')), [3, 6, 9]);
+  assert.deepEqual(ids(selectElements(elements, '//ViewGroup[@scrollable="true"]/ViewGroup[2]')), [5]);
+  assert.deepEqual(ids(selectElements(elements, '//ViewGroup[@scrollable="true"]/*[last()]')), [8]);
+  assert.deepEqual(ids(selectElements(elements, '//ViewGroup[count(Switch) = 0 and @index > 0]')), [8]);
+});
+
+test('parseSelector reports the position of syntax errors', () => {
+  assert.throws(() => parseSelector("//Switch[@checked='true'"), /position 24: expected "\]"/);
+  assert.throws(() => parseSelector('//Switch[@foo]'), /position 10: unknown attribute "@foo"/);
+  assert.throws(() => parseSelector('//Switch[contains(@text)]'), /contains\(\) expects 2 argument/);
+  assert.throws(() => parseSelector("//*[matches(@text, '(')]"), /invalid regex in matches\(\)/);
+  assert.throws(() => parseSelector('//Switch[@text="a]'), /unterminated string literal/);
+  assert.throws(() => parseSelector('sideways::Switch'), /unknown axis "sideways"/);
+});
+
+test('findElements combines a selector with other criteria', async () => {
+  const elements = await loadElements();
+  const matches = findElements(elements, {
+    selector: '//ViewGroup[@scrollable="true"]//Switch',
+    checkable: true,
+    hasParent: { clickable: true },
+  });
+  assert.deepEqual(ids(matches), [4]);
+});
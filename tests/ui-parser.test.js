@@ -4,18 +4,26 @@ import { readFile } from 'node:fs/promises';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 import {
+  buildUITree,
   parseUIElements,
   findElements,
   generateSummary,
+  getAncestors,
+  resolveTapTarget,
 } from '../dist/ui-parser.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const fixturePath = join(__dirname, 'fixtures', 'sample-ui.xml');
+const nestedFixturePath = join(__dirname, 'fixtures', 'nested-ui.xml');
 
 async function loadFixture() {
   return readFile(fixturePath, 'utf8');
 }
 
+async function loadNestedFixture() {
+  return readFile(nestedFixturePath, 'utf8');
+}
+
 test('parseUIElements extracts fields and decodes entities', async () => {
   const xml = await loadFixture();
   const elements = parseUIElements(xml);
@@ -141,3 +149,150 @@ test('findElements supports content-desc filters', async () => {
 test('generateSummary handles empty list', () => {
   assert.equal(generateSummary([]), 'No UI elements found.');
 });
+
+test('parseUIElements keeps parent, children, depth and path', async () => {
+  const elements = parseUIElements(await loadNestedFixture());
+  assert.equal(elements.length, 10);
+
+  const root = elements[0];
+  assert.equal(root.parentId, null);
+  assert.equal(root.depth, 0);
+  assert.deepEqual(root.childIds, [1]);
+  assert.equal(root.path, '/FrameLayout[0]');
+
+  const save = findElements(elements, { text: 'Save' })[0];
+  assert.equal(save.depth, 3);
+  assert.equal(
+    save.path,
+    '/FrameLayout[0]/ViewGroup[0]/ViewGroup[2]/TextView[0]'
+  );
+  assert.deepEqual(
+    getAncestors(elements, save).map((element) => element.nodeId),
+    [8, 1, 0]
+  );
+
+  const notificationsSwitch = findElements(elements, {
+    resourceId: 'settings-notifications-switch',
+  })[0];
+  assert.equal(notificationsSwitch.parentId, 5);
+  assert.deepEqual(elements[5].childIds, [6, 7]);
+});
+
+test('findElements supports ancestor and descendant constraints', async () => {
+  const elements = parseUIElements(await loadNestedFixture());
+
+  const row = findElements(elements, {
+    clickable: true,
+    hasChild: { text: 'Private account' },
+  });
+  assert.equal(row.length, 1);
+  assert.equal(row[0].nodeId, 2);
+
+  const list = findElements(elements, {
+    class: 'android.view.ViewGroup',
+    hasDescendant: { textContains: 'notif', caseInsensitive: true },
+  });
+  assert.deepEqual(
+    list.map((element) => element.nodeId),
+    [1, 5]
+  );
+
+  const rowSwitch = findElements(elements, {
+    class: 'android.widget.Switch',
+    hasParent: { hasChild: { text: 'Private account' } },
+  });
+  assert.equal(rowSwitch.length, 1);
+  assert.equal(rowSwitch[0].resourceId, 'settings-private-switch');
+
+  const missingAncestor = findElements(elements, {
+    class: 'android.widget.TextView',
+    hasAncestor: { resourceId: 'missing' },
+  });
+  assert.equal(missingAncestor.length, 0);
+});
+
+test('buildUITree nests nodes and prunes to interactive branches', async () => {
+  const elements = parseUIElements(await loadNestedFixture());
+  const [root] = buildUITree(elements);
+  assert.equal(root.children[0].children.length, 3);
+  assert.equal('childIds' in root, false);
+
+  const [pruned] = buildUITree(elements, {
+    keep: (element) => element.clickable,
+  });
+  assert.equal(pruned.children[0].children.length, 2);
+
+  const [shallow] = buildUITree(elements, { maxDepth: 1 });
+  assert.deepEqual(shallow.children[0].children, []);
+});
+
+test('resolveTapTarget walks up to the nearest clickable ancestor', async () => {
+  const elements = parseUIElements(await loadNestedFixture());
+  const [label] = findElements(elements, { text: 'Private account' });
+  const resolved = resolveTapTarget(elements, label);
+  assert.equal(resolved.reason, 'clickable-ancestor');
+  assert.equal(resolved.target.nodeId, 2);
+
+  const [notifications] = findElements(elements, { text: 'Notifications' });
+  const longPressRow = resolveTapTarget(elements, notifications);
+  assert.equal(longPressRow.reason, 'long-clickable-ancestor');
+  assert.equal(longPressRow.target.nodeId, 5);
+
+  const [toggle] = findElements(elements, {
+    resourceId: 'settings-private-switch',
+  });
+  assert.equal(resolveTapTarget(elements, toggle).reason, 'self');
+
+  const [save] = findElements(elements, { text: 'Save' });
+  const fallback = resolveTapTarget(elements, save);
+  assert.equal(fallback.reason, 'no-clickable-ancestor');
+  assert.equal(fallback.target, save);
+});
+
+test('findElements ranks spatial relations by distance', async () => {
+  const elements = parseUIElements(await loadNestedFixture());
+  const ids = (matches) => matches.map((element) => element.nodeId);
+
+  assert.deepEqual(
+    ids(findElements(elements, {
+      class: 'android.widget.Switch',
+      sameRowAs: { text: 'Private account' },
+    })),
+    [4]
+  );
+  assert.deepEqual(
+    ids(findElements(elements, {
+      class: 'android.widget.TextView',
+      below: { text: 'Private account' },
+    })),
+    [6, 9]
+  );
+  assert.deepEqual(
+    ids(findElements(elements, {
+      class: 'android.widget.TextView',
+      below: { text: 'Private account', maxDistance: 200 },
+    })),
+    [6]
+  );
+  assert.deepEqual(
+    ids(findElements(elements, { rightOf: { text: 'Notifications' } })),
+    [7, 4]
+  );
+  assert.deepEqual(
+    ids(findElements(elements, {
+      within: { class: 'android.view.ViewGroup', clickable: true },
+    })),
+    [3, 4]
+  );
+  assert.deepEqual(
+    ids(findElements(elements, {
+      class: 'android.widget.TextView',
+      nearest: { text: 'Save' },
+    })),
+    [6, 3]
+  );
+  assert.deepEqual(
+    findElements(elements, { above: { text: 'Private account' }, text: 'Save' }),
+    []
+  );
+});
@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createImage } from '../dist/png.js';
+import { compareImages, regionFromBounds } from '../dist/visual-diff.js';
+
+function solid(width, height, [r, g, b, a = 255]) {
+  const image = createImage(width, height);
+  for (let index = 0; index < width * height; index += 1) {
+    image.data.set([r, g, b, a], index * 4);
+  }
+  return image;
+}
+
+function setPixel(image, x, y, rgba) {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+test('compareImages counts pixels beyond the threshold', () => {
+  const baseline = solid(10, 10, [255, 255, 255]);
+  const actual = solid(10, 10, [255, 255, 255]);
+  setPixel(actual, 1, 1, [0, 0, 0, 255]);
+  setPixel(actual, 2, 2, [250, 250, 250, 255]);
+
+  const result = compareImages(baseline, actual, { threshold: 0.1 });
+  assert.equal(result.diffPixels, 1);
+  assert.equal(result.comparedPixels, 100);
+  assert.equal(result.mismatchPercent, 1);
+  assert.equal(result.sizeMismatch, false);
+  assert.deepEqual([...result.diff.data.subarray(44, 48)], [255, 0, 0, 255]);
+
+  assert.equal(compareImages(baseline, actual, { threshold: 0 }).diffPixels, 2);
+});
+
+test('compareImages skips ignored regions and flags size changes', () => {
+  const baseline = solid(4, 4, [0, 0, 0]);
+  const actual = solid(4, 4, [255, 255, 255]);
+  const result = compareImages(baseline, actual, {
+    ignore: [
+      { x: 0, y: 0, width: 4, height: 2 },
+      regionFromBounds({ x1: 0, y1: 2, x2: 2, y2: 3 }),
+    ],
+  });
+  assert.equal(result.ignoredPixels, 10);
+  assert.equal(result.diffPixels, 6);
+  assert.equal(result.mismatchPercent, 100);
+  assert.deepEqual([...result.diff.data.subarray(0, 4)], [95, 95, 255, 255]);
+
+  const taller = compareImages(baseline, solid(4, 5, [0, 0, 0]));
+  assert.equal(taller.sizeMismatch, true);
+  assert.equal(taller.diffPixels, 4);
+});
+
+test('compareImages treats fully transparent pixels as equal', () => {
+  const result = compareImages(solid(2, 2, [255, 0, 0, 0]), solid(2, 2, [0, 0, 255, 0]));
+  assert.equal(result.diffPixels, 0);
+});